@@ -0,0 +1,118 @@
+import { FastifyContextConfig } from 'fastify'
+
+import { CacheOptions, ResponseCacheOptions } from './types.js'
+
+export type CachedResponse = {
+	payload: Buffer
+	headers: Record<string, string>
+	/** The request path, the route URL & the tags the response is invalidated by */
+	targets: string[]
+	expires: number
+}
+
+export type ResponseCache = ReturnType<typeof createResponseCache>
+
+const caches = new Set<ResponseCache>()
+
+/**
+ * Creates an in-memory LRU cache of responses, registered for the `Cache` invalidations until it's closed.
+ *
+ * @param options - The maximum number of responses & their default time to live.
+ * @returns The response cache.
+ */
+export const createResponseCache = ({ max = 1000, ttl = 60_000 }: ResponseCacheOptions = {}) => {
+	// The map keeps the insertion order, the read entries are moved to its end so that the first ones are the least
+	// recently used
+	const entries = new Map<string, CachedResponse>()
+
+	const cache = {
+		ttl,
+
+		get: (key: string) => {
+			const entry = entries.get(key)
+			if (!entry) return
+
+			entries.delete(key)
+			if (entry.expires <= Date.now()) return
+
+			entries.set(key, entry)
+			return entry
+		},
+
+		set: (key: string, entry: CachedResponse) => {
+			entries.delete(key)
+			entries.set(key, entry)
+
+			for (let oldest of entries.keys()) {
+				if (entries.size <= max) break
+				entries.delete(oldest)
+			}
+		},
+
+		invalidate: (target: string) => {
+			for (let [key, entry] of entries) {
+				if (entry.targets.includes(target)) entries.delete(key)
+			}
+		},
+
+		clear: () => entries.clear(),
+
+		close: () => {
+			entries.clear()
+			caches.delete(cache)
+		},
+	}
+
+	caches.add(cache)
+	return cache
+}
+
+/**
+ * Builds the `Cache-Control` header of a route.
+ *
+ * @param options - The cache options of the route.
+ * @returns The header value, `undefined` if the route sets no directive.
+ */
+export const cacheControlOf = (options: CacheOptions) => {
+	const directives = [
+		options.noCache ? 'no-cache' : undefined,
+		options.maxAge !== undefined ? `max-age=${options.maxAge}` : undefined,
+		options.sMaxAge !== undefined ? `s-maxage=${options.sMaxAge}` : undefined,
+		options.staleWhileRevalidate !== undefined ? `stale-while-revalidate=${options.staleWhileRevalidate}` : undefined,
+	].filter(Boolean)
+
+	if (directives.length === 0 && options.private === undefined) return
+	return [options.private ? 'private' : 'public', ...directives].join(', ')
+}
+
+/**
+ * Returns the request headers the responses of a route depend on, `Accept` included for the routes with formats.
+ *
+ * @param config - The route config.
+ * @returns The header names.
+ */
+export const varyOf = (config: FastifyContextConfig) => {
+	const headers = [...(config.formats?.length ? ['Accept'] : []), ...(config.cache?.vary ?? [])]
+	return headers.filter((header, i) => headers.findIndex((h) => h.toLowerCase() === header.toLowerCase()) === i)
+}
+
+export namespace Cache {
+	/**
+	 * Removes the cached responses of a request path (`/users/42`, all query strings), a route URL (`/users/:id`)
+	 * or a tag (`config.cache.store.tags`), e.g. from a service once the underlying data changed.
+	 *
+	 * @param targets - The paths, route URLs or tags to invalidate.
+	 */
+	export const invalidate = (...targets: string[]) => {
+		for (let cache of caches) {
+			for (let target of targets) cache.invalidate(target)
+		}
+	}
+
+	/**
+	 * Removes all the cached responses.
+	 */
+	export const clear = () => {
+		for (let cache of caches) cache.clear()
+	}
+}
@@ -0,0 +1,111 @@
+import { parseDates, stringifyJSON } from './dates.js'
+import { envelopeOf } from './envelope.js'
+import type { Client, ClientOptions, DateSerialization, Route, SocketRoute } from './types.js'
+import { interpolate, responseSchemaOf, urlOf } from './utils.js'
+
+/**
+ * Serializes a query object into a query string, arrays are repeated (`?id=1&id=2`)
+ * and objects use the bracket syntax (`?filter[status]=open`).
+ *
+ * @param query - The query object.
+ * @returns The query string, prefixed by `?` if not empty.
+ */
+const serializeQuery = (query: Record<string, any> = {}) => {
+	const search = new URLSearchParams()
+
+	const append = (key: string, value: any) => {
+		if (value === undefined) return
+		else if (value instanceof Date) search.append(key, value.toISOString())
+		else if (Array.isArray(value)) value.forEach((item) => append(key, item))
+		else if (value !== null && typeof value === 'object') {
+			for (let subkey in value) append(`${key}[${subkey}]`, value[subkey])
+		} else search.append(key, String(value))
+	}
+
+	for (let key in query) append(key, query[key])
+
+	const str = search.toString()
+	return str ? `?${str}` : ''
+}
+
+/**
+ * Serializes a request body, as `multipart/form-data` if it contains files (Blob) and as JSON otherwise.
+ *
+ * @param body - The request body.
+ * @param dates - The serialization of the dates in JSON, the dates of the multipart fields are in ISO 8601.
+ * @returns The serialized body and its content type (if it has to be set manually).
+ */
+const serializeBody = (body: any, dates?: DateSerialization): { payload?: string | FormData; contentType?: string } => {
+	if (body === undefined) return {}
+
+	const isBlob = (value: any) => typeof Blob !== 'undefined' && value instanceof Blob
+	const hasBlob = (value: any) => isBlob(value) || (Array.isArray(value) && value.some(isBlob))
+	if (body === null || typeof body !== 'object' || !Object.values(body).some(hasBlob)) {
+		return { payload: stringifyJSON(body, dates), contentType: 'application/json' }
+	}
+
+	const form = new FormData()
+	// The arrays are sent as repeated fields
+	for (let [key, value] of Object.entries<any>(body).flatMap(([key, value]) =>
+		[value].flat().map((item) => [key, item])
+	)) {
+		if (value === undefined) continue
+		else if (isBlob(value)) form.append(key, value, value.name)
+		else if (value instanceof Date) form.append(key, value.toISOString())
+		else form.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value))
+	}
+
+	return { payload: form }
+}
+
+/**
+ * Creates a fully typed HTTP client from route namespaces (e.g. `{ hello: HelloRoute }`).
+ *
+ * @param routers - The route namespaces, indexed by the name used in the client.
+ * @param options - The client options (base URL, headers, custom fetch, envelope).
+ * @returns An object exposing one typed call function per route.
+ */
+export const createClient = <R extends Record<string, object>>(routers: R, options: ClientOptions): Client<R> => {
+	const envelope = envelopeOf(options.envelope)
+
+	const request = async (route: Route, path: string, input: Record<string, any> = {}) => {
+		const { payload, contentType } = serializeBody(input.body, options.dates?.serialize)
+		const headers = typeof options.headers === 'function' ? await options.headers() : options.headers
+
+		const res = await (options.fetch ?? fetch)(
+			`${options.baseUrl.replace(/\/+$/, '')}${interpolate(path, input.params)}${serializeQuery(input.query)}`,
+			{
+				method: route.method,
+				headers: {
+					...(contentType ? { 'Content-Type': contentType } : {}),
+					...headers,
+					...input.headers,
+				},
+				body: payload,
+			}
+		)
+
+		const text = await res.text()
+		if (!res.headers.get('Content-Type')?.includes('json')) return text
+
+		const schema = responseSchemaOf(route.schema?.response, res.status)
+		return parseDates(envelope.parse(JSON.parse(text), res.status, schema), schema, options.dates?.parse)
+	}
+
+	const client: Record<string, Record<string, Function>> = {}
+
+	for (let name in routers) {
+		const { PREFIX = '', ...routes } = routers[name] as Record<string, any>
+
+		client[name] = {}
+
+		for (let routeName in routes) {
+			const route = routes[routeName] as Route | SocketRoute
+			if (!route || typeof route !== 'object' || !route.method || !route.path || route.method === 'WS') continue
+
+			client[name][routeName] = (input?: Record<string, any>) => request(route, urlOf(PREFIX, route.path), input)
+		}
+	}
+
+	return client as Client<R>
+}
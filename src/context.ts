@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+export namespace Context {
+	type Fields = Record<string, any>
+
+	const storage = new AsyncLocalStorage<Fields>()
+
+	/**
+	 * Returns the fields of the current request context (`requestId`, `route` & the user-added ones).
+	 *
+	 * @returns The context fields, or `undefined` outside of a request.
+	 */
+	export const get = (): Fields | undefined => storage.getStore()
+
+	/**
+	 * Adds fields to the current request context, they are included in every log of the request.
+	 * Does nothing outside of a request.
+	 *
+	 * @param fields - The fields to add (e.g. `{ userId }`).
+	 */
+	export const set = (fields: Fields) => {
+		const store = storage.getStore()
+		if (store) Object.assign(store, fields)
+	}
+
+	/**
+	 * Runs a function within a context, the fields are shared with all the asynchronous operations it starts.
+	 *
+	 * @param fields - The context fields.
+	 * @param fn - The function to run.
+	 * @returns The result of the function.
+	 */
+	export const run = <T>(fields: Fields, fn: () => T): T => storage.run(fields, fn)
+}
@@ -0,0 +1,178 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod'
+
+import { DateParsing, DateSerialization } from './types.js'
+
+/** ISO 8601 dates (`2024-01-31`) and date-times, with an optional timezone offset (`Z`, `+02:00`, `+0200`) */
+const ISO_DATE_REGEX =
+	/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?(Z|[+-]\d{2}(?::?\d{2})?)?)?$/i
+
+const isObject = (value: any): value is Record<string, any> => {
+	return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+}
+
+/**
+ * Parses an ISO 8601 date or date-time string, the date-only values and the date-times without offset are in UTC.
+ *
+ * @param value - The string to parse.
+ * @returns The date, or `undefined` if the string isn't a valid ISO 8601 date.
+ */
+export const parseDate = (value: string): Date | undefined => {
+	const match = value.match(ISO_DATE_REGEX)
+	if (!match) return
+
+	const [, year, month, day, hours = '0', minutes = '0', seconds = '0', fraction = '0', offset = 'Z'] = match
+	const time = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds, Math.floor(+`0.${fraction}` * 1000))
+
+	// The components are checked as `Date.UTC` silently overflows them (e.g. `2024-02-30` is `2024-03-01`)
+	const date = new Date(time)
+	if (date.getUTCMonth() !== +month - 1 || date.getUTCDate() !== +day || +hours > 23 || +minutes > 59 || +seconds > 59)
+		return
+
+	if (offset.toUpperCase() === 'Z') return date
+
+	const [, sign, offsetHours, offsetMinutes = '0'] = offset.match(/^([+-])(\d{2}):?(\d{2})?$/)!
+	const shift = (+offsetHours * 60 + +offsetMinutes) * 60_000
+
+	return new Date(sign === '+' ? time - shift : time + shift)
+}
+
+/**
+ * Checks if a value is an ISO 8601 date-time string, the date-only values (`2024-01-31`) aren't considered dates here
+ * as they are too likely to be free text.
+ *
+ * @param value - The value to check.
+ * @returns Whether the value is an ISO 8601 date-time string or not.
+ */
+export const isDateString = (value: any): value is string => {
+	return typeof value === 'string' && value.length > 10 && parseDate(value) !== undefined
+}
+
+/**
+ * Converts all the date-time strings of a value into `Date` objects (heuristic date parsing).
+ *
+ * @param value - The value to parse dates in.
+ * @returns A copy of the value with all date-time strings converted to Date objects.
+ */
+export const parseDatesInObject = (value: any): any => {
+	if (isDateString(value)) return parseDate(value)
+	if (Array.isArray(value)) return value.map(parseDatesInObject)
+	if (!isObject(value)) return value
+
+	return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, parseDatesInObject(item)]))
+}
+
+/**
+ * Converts the dates of the entries of an object, each one according to its schema.
+ *
+ * @param value - The object.
+ * @param schemaOf - Returns the schema of an entry from its key.
+ * @returns A copy of the object with its dates converted.
+ */
+const parseDatesInEntries = async (value: Record<string, any>, schemaOf: (key: string) => ZodTypeAny | undefined) => {
+	const entries = Object.entries(value).map(async ([key, item]) => [
+		key,
+		await parseDatesWithSchema(item, schemaOf(key)),
+	])
+	return Object.fromEntries(await Promise.all(entries))
+}
+
+/**
+ * Converts the values of the fields declared as dates (`Is.date()`) in a schema into `Date` objects, from ISO 8601
+ * strings or epoch milliseconds (schema-driven date parsing). Asynchronous, as the union options are tried with their
+ * (possibly asynchronous) refinements.
+ *
+ * @param value - The value to parse dates in.
+ * @param schema - The schema of the value.
+ * @returns A copy of the value with its date fields converted, the values that can't be converted are left as is.
+ */
+export const parseDatesWithSchema = async (value: any, schema: ZodTypeAny | undefined): Promise<any> => {
+	if (!schema || value === undefined || value === null) return value
+
+	const def = schema._def
+
+	switch (def.typeName as ZodFirstPartyTypeKind) {
+		case ZodFirstPartyTypeKind.ZodOptional:
+		case ZodFirstPartyTypeKind.ZodNullable:
+		case ZodFirstPartyTypeKind.ZodDefault:
+		case ZodFirstPartyTypeKind.ZodCatch:
+		case ZodFirstPartyTypeKind.ZodReadonly:
+			return parseDatesWithSchema(value, def.innerType)
+		case ZodFirstPartyTypeKind.ZodEffects:
+			return parseDatesWithSchema(value, def.schema)
+		case ZodFirstPartyTypeKind.ZodBranded:
+			return parseDatesWithSchema(value, def.type)
+		case ZodFirstPartyTypeKind.ZodPipeline:
+			return parseDatesWithSchema(value, def.in)
+		case ZodFirstPartyTypeKind.ZodLazy:
+			return parseDatesWithSchema(value, def.getter())
+
+		case ZodFirstPartyTypeKind.ZodDate:
+			if (typeof value === 'string') return parseDate(value) ?? value
+			if (typeof value === 'number' && Number.isFinite(value)) return new Date(value)
+			return value
+
+		case ZodFirstPartyTypeKind.ZodArray:
+			if (!Array.isArray(value)) return value
+			return Promise.all(value.map((item) => parseDatesWithSchema(item, def.type)))
+		case ZodFirstPartyTypeKind.ZodTuple:
+			if (!Array.isArray(value)) return value
+			return Promise.all(value.map((item, i) => parseDatesWithSchema(item, def.items[i] ?? def.rest)))
+		case ZodFirstPartyTypeKind.ZodObject: {
+			if (!isObject(value)) return value
+
+			const shape = def.shape()
+			const catchall = def.catchall?._def.typeName === ZodFirstPartyTypeKind.ZodNever ? undefined : def.catchall
+			return parseDatesInEntries(value, (key) => shape[key] ?? catchall)
+		}
+		case ZodFirstPartyTypeKind.ZodRecord:
+			if (!isObject(value)) return value
+			return parseDatesInEntries(value, () => def.valueType)
+
+		case ZodFirstPartyTypeKind.ZodUnion:
+		case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+			const options: ZodTypeAny[] = [...def.options.values()]
+
+			for (let option of options) {
+				const parsed = await parseDatesWithSchema(value, option)
+				if ((await option.safeParseAsync(parsed)).success) return parsed
+			}
+
+			return value
+		}
+		case ZodFirstPartyTypeKind.ZodIntersection:
+			return parseDatesWithSchema(await parseDatesWithSchema(value, def.left), def.right)
+
+		default:
+			return value
+	}
+}
+
+/**
+ * Converts the dates of a value according to a date parsing policy.
+ *
+ * @param value - The value to parse dates in.
+ * @param schema - The schema of the value, used by the `schema` policy.
+ * @param policy - The date parsing policy, default to `schema`.
+ * @returns The value with its dates converted.
+ */
+export const parseDates = async (value: any, schema: ZodTypeAny | undefined, policy: DateParsing = 'schema') => {
+	if (policy === 'heuristic') return parseDatesInObject(value)
+	if (policy === 'schema') return parseDatesWithSchema(value, schema)
+	return value
+}
+
+/**
+ * Serializes a value in JSON with its dates as ISO 8601 strings or epoch milliseconds.
+ *
+ * @param value - The value to serialize.
+ * @param serialization - The date serialization, default to `iso`.
+ * @returns The JSON string.
+ */
+export const stringifyJSON = (value: any, serialization: DateSerialization = 'iso'): string => {
+	if (serialization === 'iso') return JSON.stringify(value)
+
+	// The replacer receives the values already converted by `Date.prototype.toJSON`, the original is read on the holder
+	return JSON.stringify(value, function (this: any, key, item) {
+		return this[key] instanceof Date ? this[key].getTime() : item
+	})
+}
@@ -0,0 +1,187 @@
+import { createHash } from 'crypto'
+import { FastifyReply } from 'fastify'
+import { createReadStream } from 'fs'
+import { stat } from 'fs/promises'
+import { contentType } from 'mime-types'
+import path from 'path'
+import { Readable } from 'stream'
+
+import { FileOptions } from './types.js'
+
+/**
+ * Parses a `Range` header, only the single byte ranges are supported (the multiple ranges are served in full).
+ *
+ * @param header - The `Range` header.
+ * @param size - The size of the file.
+ * @returns The inclusive range, `false` if it isn't satisfiable or `undefined` if the file has to be served in full.
+ */
+const parseRange = (header: string, size: number): { start: number; end: number } | false | undefined => {
+	const match = header.match(/^bytes=(\d*)-(\d*)$/)
+	if (!match || (!match[1] && !match[2])) return
+
+	const [, first, last] = match
+
+	// A suffix range (`bytes=-500`) targets the last bytes of the file
+	const start = first ? +first : Math.max(size - +last, 0)
+	const end = first && last ? Math.min(+last, size - 1) : size - 1
+
+	if (start > end || start >= size) return false
+	return { start, end }
+}
+
+/**
+ * Computes the strong entity tag of a content, from its hash.
+ *
+ * @param content - The content.
+ * @returns The entity tag.
+ */
+export const entityTag = (content: string | Buffer) => `"${createHash('sha1').update(content).digest('base64url')}"`
+
+/**
+ * Checks the conditional headers of a request (`If-None-Match` first, then `If-Modified-Since`).
+ *
+ * @param reply - The reply of the request.
+ * @param etag - The entity tag of the file.
+ * @param lastModified - The modification date of the file.
+ * @returns Whether the client copy of the file is fresh.
+ */
+export const isFresh = (reply: FastifyReply, etag?: string, lastModified?: Date) => {
+	const { headers, method } = reply.request
+	if (method !== 'GET' && method !== 'HEAD') return false
+
+	const ifNoneMatch = headers['if-none-match']
+	if (ifNoneMatch) {
+		if (!etag) return false
+
+		// The comparison is weak, as recommended for `If-None-Match`
+		const tags = ifNoneMatch.split(',').map((tag) => tag.trim().replace(/^W\//, ''))
+		return tags.includes('*') || tags.includes(etag.replace(/^W\//, ''))
+	}
+
+	const ifModifiedSince = headers['if-modified-since']
+	if (ifModifiedSince && lastModified) {
+		const since = Date.parse(ifModifiedSince)
+		return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000)
+	}
+
+	return false
+}
+
+/**
+ * Checks the `If-Range` header of a request, the range is served only if the file didn't change.
+ *
+ * @param reply - The reply of the request.
+ * @param etag - The entity tag of the file.
+ * @param lastModified - The modification date of the file.
+ * @returns Whether the range can be served.
+ */
+const matchesIfRange = (reply: FastifyReply, etag?: string, lastModified?: Date) => {
+	const ifRange = reply.request.headers['if-range']?.toString()
+	if (!ifRange) return true
+
+	// The comparison is strong, the weak entity tags never match
+	if (ifRange.startsWith('"') || ifRange.startsWith('W/')) return !!etag && !etag.startsWith('W/') && ifRange === etag
+
+	const since = Date.parse(ifRange)
+	return !!lastModified && !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) === since / 1000
+}
+
+/**
+ * Formats a `Content-Disposition` header, with an ASCII fallback of the filename and its UTF-8 version (RFC 6266).
+ *
+ * @param filename - The name of the file.
+ * @param inline - Whether the file is displayed in the browser.
+ * @returns The header value.
+ */
+const contentDisposition = (filename: string | undefined, inline?: boolean) => {
+	const type = inline ? 'inline' : 'attachment'
+	if (!filename) return type
+
+	const fallback = filename.replace(/[^\x20-\x7e]/g, '?').replace(/["\\]/g, '\\$&')
+	if (fallback === filename) return `${type}; filename="${fallback}"`
+
+	const encoded = encodeURIComponent(filename).replace(
+		/['()*]/g,
+		(c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+	)
+	return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+/**
+ * Sends a file from a path, a Buffer or a stream, handling the conditional (`304`) and the range (`206`, `416`)
+ * requests when the entity tag, the modification date or the size of the file are known.
+ *
+ * @param reply - The reply to send the file with.
+ * @param status - The status of the full response.
+ * @param source - The path, the Buffer or the stream of the file.
+ * @param options - The file options.
+ * @param mediaType - The media type of the response schema (`Is.binary(mediaType)`), used when the filename has none.
+ * @returns The reply.
+ */
+export const sendFile = async (
+	reply: FastifyReply,
+	status: number,
+	source: string | Buffer | Readable,
+	options: FileOptions = {},
+	mediaType = 'application/octet-stream'
+) => {
+	let size = options.size
+	let etag = options.etag || undefined
+	let lastModified = options.lastModified || undefined
+	let filename = options.filename
+
+	if (typeof source === 'string') {
+		const stats = await stat(source)
+		if (!stats.isFile()) throw new Error(`The path "${source}" isn't a file`)
+
+		size = stats.size
+		filename ??= path.basename(source)
+		if (options.lastModified === undefined) lastModified = stats.mtime
+		if (options.etag === undefined) etag = `W/"${stats.size.toString(16)}-${stats.mtime.getTime().toString(16)}"`
+	} else if (Buffer.isBuffer(source)) {
+		size = source.length
+		if (options.etag === undefined) etag = entityTag(source)
+	}
+
+	reply.header('Content-Type', options.type ?? ((filename && contentType(filename)) || mediaType))
+	reply.header('Content-Disposition', contentDisposition(filename, options.inline))
+	if (etag) reply.header('ETag', etag)
+	if (lastModified) reply.header('Last-Modified', lastModified.toUTCString())
+
+	if (isFresh(reply, etag, lastModified)) {
+		if (source instanceof Readable) source.destroy()
+		reply.removeHeader('Content-Type')
+		reply.removeHeader('Content-Disposition')
+		return reply.status(304).send()
+	}
+
+	// The streams of unknown size can't be ranged
+	const ranged = size !== undefined && !(source instanceof Readable)
+	if (ranged) reply.header('Accept-Ranges', 'bytes')
+
+	const header = reply.request.headers.range
+	const range =
+		ranged && header && reply.request.method === 'GET' && matchesIfRange(reply, etag, lastModified)
+			? parseRange(header, size!)
+			: undefined
+
+	if (range === false) {
+		reply.removeHeader('Content-Disposition')
+		return reply.status(416).header('Content-Range', `bytes */${size}`).send()
+	}
+
+	if (range) {
+		reply.status(206)
+		reply.header('Content-Range', `bytes ${range.start}-${range.end}/${size}`)
+		reply.header('Content-Length', range.end - range.start + 1)
+
+		return typeof source === 'string'
+			? reply.send(createReadStream(source, range))
+			: reply.send((source as Buffer).subarray(range.start, range.end + 1))
+	}
+
+	reply.status(status)
+	if (size !== undefined) reply.header('Content-Length', size)
+
+	return reply.send(typeof source === 'string' ? createReadStream(source) : source)
+}
@@ -0,0 +1,175 @@
+import { ZodArray, ZodBigInt, ZodNumber, ZodObject, ZodTypeAny, z } from 'zod'
+
+import { Envelope, EnvelopeError, EnvelopeName } from './types.js'
+import { fieldsOf, isNumber, unwrapSchema } from './utils.js'
+
+const isObject = (value: any): value is Record<string, any> => {
+	return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+}
+
+/**
+ * Converts the data of a response into JSON:API resource objects, the objects without `id` are left as is.
+ *
+ * @param data - The data of the response.
+ * @param type - The type of the resources (the last segment of the resource directory of the route).
+ * @returns The primary data of the JSON:API document.
+ */
+const toResource = (data: any, type: string): any => {
+	if (Array.isArray(data)) return data.map((item) => toResource(item, type))
+	if (!isObject(data) || data.id === undefined) return data ?? null
+
+	const { id, ...attributes } = data
+	return { type, id: String(id), attributes }
+}
+
+/**
+ * Converts JSON:API resource objects back into plain objects, the ids (strings in JSON:API) are converted back into
+ * numbers when their schema expects them.
+ *
+ * @param data - The primary data of the JSON:API document.
+ * @param schema - The schema of the plain data, if any.
+ * @returns The plain data.
+ */
+const fromResource = (data: any, schema?: ZodTypeAny): any => {
+	const inner = schema && unwrapSchema(schema)
+
+	if (Array.isArray(data))
+		return data.map((item) => fromResource(item, inner instanceof ZodArray ? inner.element : undefined))
+	if (!isObject(data) || data.id === undefined || !isObject(data.attributes)) return data
+
+	const idSchema = fieldsOf(inner).id && unwrapSchema(fieldsOf(inner).id)
+	let id = data.id
+
+	if (typeof id === 'string' && idSchema instanceof ZodNumber && isNumber(id)) id = Number(id)
+	if (typeof id === 'string' && idSchema instanceof ZodBigInt && /^-?\d+$/.test(id)) id = BigInt(id)
+
+	return { id, ...data.attributes }
+}
+
+/**
+ * Returns the schema of the JSON:API resource objects built from a data schema.
+ *
+ * @param data - The schema of the data.
+ * @returns The schema of the primary data.
+ */
+const resourceSchema = (data: ZodTypeAny): ZodTypeAny => {
+	if (data instanceof z.ZodArray) return z.array(resourceSchema(data.element))
+	if (!(data instanceof ZodObject) || !('id' in data.shape)) return data
+
+	return z.object({ type: z.string(), id: z.string(), attributes: data.omit({ id: true }) })
+}
+
+const errorSchema = (types: [string, ...string[]]) =>
+	z.object({
+		type: z.enum(types),
+		message: z.string().optional(),
+		details: z.array(z.any()).optional(),
+	})
+
+const defaultEnvelope: Envelope = {
+	success: (data) => ({ success: true, data }),
+	error: ({ type, message, details }) => ({ success: false, error: { type, message, details } }),
+	parse: (body) => body,
+	schemas: {
+		success: (data) => z.object({ success: z.literal(true), data }),
+		error: (types) => z.object({ success: z.literal(false), error: errorSchema(types) }),
+	},
+}
+
+const bareEnvelope: Envelope = {
+	success: (data) => data,
+	error: ({ type, message, details }) => ({ type, message, details }),
+	parse: (body, status) => (status >= 400 ? { success: false, error: body } : { success: true, data: body }),
+	schemas: {
+		success: (data) => data,
+		error: errorSchema,
+	},
+}
+
+export const Envelopes: { [key in EnvelopeName]: Envelope } = {
+	/** `{ success: true, data }` and `{ success: false, error: { type, message, details } }` */
+	default: defaultEnvelope,
+
+	/** The data as is, and `{ type, message, details }` for the errors */
+	bare: bareEnvelope,
+
+	/** JSON:API documents, `{ data }` (objects with an `id` become resource objects) and `{ errors: [...] }` */
+	jsonapi: {
+		contentType: 'application/vnd.api+json',
+		success: (data, { resource }) => ({ data: resource ? toResource(data, resource) : data ?? null }),
+		error: ({ status, type, message, details }) => ({
+			errors: [{ status: String(status), code: type, title: message, meta: details && { details } }],
+		}),
+		parse: (body, status, schema) => {
+			if (status < 400) return { success: true, data: fromResource(body?.data, fieldsOf(schema).data) }
+
+			const [error] = body?.errors ?? []
+			return { success: false, error: { type: error?.code, message: error?.title, details: error?.meta?.details } }
+		},
+		schemas: {
+			success: (data) => z.object({ data: resourceSchema(data) }),
+			error: (types) =>
+				z.object({
+					errors: z.array(
+						z.object({
+							status: z.string(),
+							code: z.enum(types),
+							title: z.string().optional(),
+							meta: z.object({ details: z.array(z.any()) }).optional(),
+						})
+					),
+				}),
+		},
+	},
+
+	/** The data as is, and RFC 9457 problem details (`application/problem+json`) for the errors */
+	problem: {
+		errorContentType: 'application/problem+json',
+		success: bareEnvelope.success,
+		error: ({ status, type, message, details }) => ({ type, title: message, status, details }),
+		parse: (body, status) => {
+			if (status < 400) return { success: true, data: body }
+			return { success: false, error: { type: body?.type, message: body?.title, details: body?.details } }
+		},
+		schemas: {
+			success: bareEnvelope.schemas.success,
+			error: (types) =>
+				z.object({
+					type: z.enum(types),
+					title: z.string().optional(),
+					status: z.number().int(),
+					details: z.array(z.any()).optional(),
+				}),
+		},
+	},
+}
+
+/**
+ * Resolves an envelope option, either the name of a built-in envelope or a custom one.
+ *
+ * @param envelope - The envelope option, default to `default`.
+ * @returns The envelope.
+ */
+export const envelopeOf = (envelope: EnvelopeName | Envelope = 'default'): Envelope => {
+	return typeof envelope === 'string' ? Envelopes[envelope] : envelope
+}
+
+/**
+ * Wraps a response payload built by the reply helpers (`{ success, data }` or `{ success: false, error }`) into the
+ * envelope, the other payloads are left as is.
+ *
+ * @param envelope - The envelope of the server.
+ * @param payload - The response payload.
+ * @param status - The status of the response.
+ * @param resource - The type of the resources of the route, if known.
+ * @returns The payload to serialize.
+ */
+export const wrapPayload = (envelope: Envelope, payload: any, status: number, resource?: string) => {
+	if (!isObject(payload)) return payload
+
+	if (payload.success === true) return envelope.success(payload.data, { status, resource })
+	if (payload.success === false && isObject(payload.error))
+		return envelope.error({ status, ...(payload.error as Omit<EnvelopeError, 'status'>) })
+
+	return payload
+}
@@ -0,0 +1,68 @@
+import { Serializer } from './types.js'
+
+/**
+ * Chooses the media type of a response from the `Accept` header of the request.
+ *
+ * @param accept - The `Accept` header, the first available media type is chosen if missing.
+ * @param available - The media types the route can respond with, by order of preference.
+ * @returns The chosen media type, or `undefined` if none is acceptable.
+ */
+export const negotiate = (accept: string | undefined, available: string[]): string | undefined => {
+	if (!accept?.trim()) return available[0]
+
+	const ranges = accept
+		.split(',')
+		.map((part, index) => {
+			const [range, ...params] = part.trim().toLowerCase().split(';')
+			const q = params.map((param) => param.trim()).find((param) => param.startsWith('q='))
+
+			return { range: range.trim(), q: q ? parseFloat(q.slice(2)) : 1, index }
+		})
+		.filter(({ range, q }) => range && q > 0)
+		.sort((a, b) => b.q - a.q || a.index - b.index)
+
+	for (let { range } of ranges) {
+		const [type, subtype] = range.split('/')
+
+		const match = available.find((mediaType) => {
+			const [availableType, availableSubtype] = mediaType.toLowerCase().split('/')
+			return (type === '*' || type === availableType) && (subtype === '*' || subtype === availableSubtype)
+		})
+
+		if (match) return match
+	}
+}
+
+/**
+ * Escapes a CSV cell (RFC 4180), the dates are written in ISO 8601 and the objects in JSON.
+ *
+ * @param value - The value of the cell.
+ * @returns The escaped cell.
+ */
+const csvCell = (value: any) => {
+	if (value === undefined || value === null) return ''
+
+	const text =
+		value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes an array of objects (or a single object) into CSV, with a header row made of all their keys.
+ *
+ * @param data - The data of the response.
+ * @returns The CSV document.
+ */
+export const toCSV: Serializer = (data) => {
+	const rows: Record<string, any>[] = Array.isArray(data) ? data : [data]
+
+	if (rows.some((row) => row === null || typeof row !== 'object' || Array.isArray(row))) {
+		throw new Error('Only arrays of objects can be serialized in CSV')
+	}
+
+	const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))]
+	const lines = [columns.map(csvCell), ...rows.map((row) => columns.map((column) => csvCell(row[column])))]
+
+	return lines.map((cells) => cells.join(',')).join('\r\n') + '\r\n'
+}
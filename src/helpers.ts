@@ -1,8 +1,26 @@
-import { FastifyError, FastifyReply } from 'fastify'
+import { FastifyError, FastifyReply, FastifyRequest } from 'fastify'
+import { ServerResponse } from 'http'
+import { WebSocket } from 'ws'
+import { ZodIssue, ZodTypeAny } from 'zod'
 
-import { RequestError, ResponseError } from './server.js'
-import { ServerReply } from './types.js'
+import { sendFile } from './download.js'
+import { wrapPayload } from './envelope.js'
+import { Logger } from './logger.js'
+import { HttpError, RequestError, ResponseError, UploadError } from './server.js'
+import {
+	BuiltinErrorType,
+	Envelope,
+	ErrorsOptions,
+	Middleware,
+	Schema,
+	ServerReply,
+	ServerRequest,
+	ServerSocket,
+	SocketSchema,
+	UploadErrorKind,
+} from './types.js'
 import { exportIssues } from './utils.js'
+import { mediaTypeOf } from './validator.js'
 
 /**
  * Wraps the FastifyReply object to provide custom reply methods.
@@ -11,7 +29,7 @@ import { exportIssues } from './utils.js'
  * @returns An object with custom reply methods.
  */
 export const replyWrapper = (reply: FastifyReply): ServerReply<any> => {
-	return {
+	const wrapper: ServerReply<any> = {
 		success: (...[status, result]) => {
 			let intStatus = typeof status === 'number' ? status : parseInt(status.toString())
 			if (Number.isNaN(status)) intStatus = 200
@@ -38,25 +56,309 @@ export const replyWrapper = (reply: FastifyReply): ServerReply<any> => {
 		custom: () => reply,
 
 		html: (input) => reply.header('Content-Type', 'text/html').send(typeof input === 'string' ? input : input.render()),
+
+		file: (status, source, options) => {
+			const responses = reply.request.routeOptions.schema?.response as Record<string, ZodTypeAny> | undefined
+			const schema = responses?.[status.toString()]
+			const intStatus = typeof status === 'number' ? status : parseInt(status.toString())
+
+			return sendFile(reply, Number.isNaN(intStatus) ? 200 : intStatus, source, options, schema && mediaTypeOf(schema))
+		},
+
+		noContent: () => reply.status(204).send(),
+
+		redirect: (status, url) => reply.redirect(status, url),
+
+		headers: (headers) => {
+			for (let [name, value] of Object.entries(headers)) {
+				if (value !== undefined) reply.header(name.toLowerCase(), value)
+			}
+
+			return wrapper
+		},
+
+		cookie: (name, value, options) => {
+			if (!reply.setCookie) throw new Error("The cookie plugin must be enabled to set cookies (`enable('cookie')`)")
+
+			const req = reply.request
+			const schema = (req.routeOptions.schema as Schema | undefined)?.cookies
+
+			if (schema) {
+				// The cookies are set synchronously (the reply methods are chained), their schemas can't be asynchronous
+				let result
+				try {
+					result = schema
+						.partial()
+						.strict()
+						.safeParse({ [name]: value })
+				} catch (ex: any) {
+					throw new Error(`The cookie schemas can't be asynchronous (refinements, transforms): ${ex.message}`)
+				}
+				if (!result.success) throw new ResponseError(req.method, req.routeOptions.url ?? req.url, result.error.issues)
+				value = result.data[name]
+			}
+
+			reply.setCookie(name, stringifyCookie(value), options)
+			return wrapper
+		},
+
+		clearCookie: (name, options) => {
+			if (!reply.clearCookie) throw new Error("The cookie plugin must be enabled to clear cookies (`enable('cookie')`)")
+
+			reply.clearCookie(name, options)
+			return wrapper
+		},
+
+		sse: (status, source, options) => {
+			const req = reply.request
+			const responses = req.routeOptions.schema?.response as Record<string, ZodTypeAny> | undefined
+			const schema = responses?.[status.toString()]
+			const aborter = new AbortController()
+
+			const lastEventId = req.headers['last-event-id']?.toString()
+			const events = typeof source === 'function' ? source({ lastEventId, signal: aborter.signal }) : source
+			const iterator = events[Symbol.asyncIterator]()
+
+			reply.hijack()
+			reply.raw.writeHead(typeof status === 'number' ? status : parseInt(status.toString()) || 200, {
+				...(reply.getHeaders() as Record<string, string>),
+				'Content-Type': 'text/event-stream; charset=utf-8',
+				'Cache-Control': 'no-cache',
+				Connection: 'keep-alive',
+				'X-Accel-Buffering': 'no',
+			})
+
+			const heartbeatInterval = options?.heartbeat ?? 15_000
+			const heartbeat =
+				heartbeatInterval > 0 ? setInterval(() => reply.raw.write(': heartbeat\n\n'), heartbeatInterval) : undefined
+
+			// Cleanup when the client disconnects (or when the stream ends)
+			reply.raw.on('close', () => {
+				clearInterval(heartbeat)
+				if (!aborter.signal.aborted) {
+					aborter.abort()
+
+					// The `finally` blocks of the generator run here, nothing else awaits them
+					iterator.return?.()?.catch((ex: any) => {
+						Logger.error('http', ex, { method: req.method, path: req.routeOptions.url })
+					})
+				}
+			})
+
+			const stream = async () => {
+				try {
+					for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+						if (aborter.signal.aborted) break
+
+						const validation = schema
+							? await schema.safeParseAsync(result.value)
+							: { success: true as const, data: result.value }
+						if (!validation.success) {
+							throw new ResponseError(req.method, req.routeOptions.url ?? req.url, validation.error.issues)
+						}
+
+						// Backpressure, the next event is pulled once the buffered ones are flushed to the client
+						if (!reply.raw.write(formatEvent(validation.data))) await drained(reply.raw)
+					}
+				} catch (ex: any) {
+					if (!aborter.signal.aborted) Logger.error('http', ex, { method: req.method, path: req.routeOptions.url })
+				} finally {
+					reply.raw.end()
+				}
+			}
+
+			stream()
+
+			return reply
+		},
 	}
+
+	return wrapper
 }
 
 /**
- * Replies with a "bad request" error indicating an issue with the request.
+ * Converts a cookie value into a string, the objects are serialized in JSON.
  *
- * @param error - The RequestError object representing the error.
- * @param reply - The FastifyReply object used to send the response.
- * @param metadata - Additional metadata associated with the error (optional).
+ * @param value - The cookie value.
+ * @returns The string value.
  */
-export const replyBadRequest = (error: RequestError, reply: FastifyReply, metadata?: any) => {
-	const response = {
+const stringifyCookie = (value: any) => {
+	if (value instanceof Date) return value.toISOString()
+	if (typeof value === 'object' && value !== null) return JSON.stringify(value)
+	return String(value)
+}
+
+/**
+ * Runs middlewares one after the other, stops as soon as one of them replies.
+ * The object returned by a middleware (if any) is merged into the request context (`req.ctx`).
+ *
+ * @param middlewares - The middlewares to run.
+ * @param req - The FastifyRequest object.
+ * @param reply - The FastifyReply object.
+ */
+export const runMiddlewares = async (middlewares: Middleware<any, any>[], req: FastifyRequest, reply: FastifyReply) => {
+	for (let middleware of middlewares) {
+		const result = await middleware(req as ServerRequest, replyWrapper(reply))
+		if (reply.sent) return
+
+		if (result && typeof result === 'object' && result !== reply && !Array.isArray(result)) {
+			Object.assign(req.ctx, result)
+		}
+	}
+}
+
+/**
+ * Wraps a WebSocket to validate the incoming and outgoing messages against the route schema.
+ *
+ * @param ws - The WebSocket to be wrapped.
+ * @param schema - The schema of the WebSocket route.
+ * @param req - The upgrade request.
+ * @param envelope - The envelope of the server, the rejections of the invalid messages are wrapped in it.
+ * @param options - The errors options of the server (optional).
+ * @returns An object with typed socket methods.
+ */
+export const socketWrapper = (
+	ws: WebSocket,
+	schema: SocketSchema,
+	req: FastifyRequest,
+	envelope: Envelope,
+	options?: ErrorsOptions
+): ServerSocket<any> => {
+	const url = req.routeOptions.url ?? req.url
+	const listeners: ((message: any) => Promise<void> | void)[] = []
+
+	const reject = (issues: ZodIssue[], message = 'Oops! Looks like there was a problem with your message.') => {
+		const response = errorResponse('bad_request', message, exportIssues(issues), options)
+		ws.send(JSON.stringify(wrapPayload(envelope, response, 400)))
+	}
+
+	ws.on('message', async (data) => {
+		let message: any
+		try {
+			message = JSON.parse(data.toString())
+		} catch (_) {
+			return reject([], 'Oops! Your message is not a valid JSON.')
+		}
+
+		// A throwing refinement is logged, as nothing awaits this listener
+		let result
+		try {
+			result = await schema.message.safeParseAsync(message)
+		} catch (ex: any) {
+			return Logger.error('ws', ex, { path: url })
+		}
+		if (!result.success) return reject(result.error.issues)
+
+		for (let listener of listeners) {
+			try {
+				await listener(result.data)
+			} catch (ex: any) {
+				Logger.error('ws', ex, { path: url })
+			}
+		}
+	})
+
+	const socket: ServerSocket<any> = {
+		send: async (message) => {
+			// The validation is asynchronous, its failures are logged so that the calls don't have to be awaited
+			try {
+				const result = await schema.send.safeParseAsync(message)
+				if (!result.success) throw new ResponseError('WS', url, result.error.issues)
+
+				ws.send(JSON.stringify(result.data))
+			} catch (ex: any) {
+				Logger.error('ws', ex, { path: url })
+			}
+		},
+
+		on: (event: 'message' | 'close', listener: (...args: any[]) => any) => {
+			if (event === 'message') listeners.push(listener)
+			else ws.on('close', listener)
+
+			return socket
+		},
+
+		close: (code, reason) => ws.close(code, reason),
+
+		raw: ws,
+	}
+
+	return socket
+}
+
+/**
+ * Formats an event to the Server-Sent Events wire format.
+ *
+ * @param event - The event to format (`{ event, data, id, retry }`).
+ * @returns The formatted event.
+ */
+const formatEvent = ({ event, data, id, retry }: { event?: string; data?: any; id?: string; retry?: number }) => {
+	let message = ''
+
+	if (id !== undefined) message += `id: ${id}\n`
+	if (event !== undefined) message += `event: ${event}\n`
+	if (retry !== undefined) message += `retry: ${retry}\n`
+
+	const payload = typeof data === 'string' ? data : JSON.stringify(data ?? null)
+	for (let line of payload.split(/\r?\n/)) message += `data: ${line}\n`
+
+	return message + '\n'
+}
+
+/**
+ * Waits for a response to be writable again, once its buffered data is flushed (or the client disconnected).
+ *
+ * @param res - The raw response.
+ */
+const drained = (res: ServerResponse) =>
+	new Promise<void>((resolve) => {
+		const done = () => {
+			res.off('drain', done)
+			res.off('close', done)
+			resolve()
+		}
+
+		res.on('drain', done)
+		res.on('close', done)
+	})
+
+/**
+ * Builds the body of a built-in error response, with the type & message overridden by the errors options.
+ *
+ * @param kind - The built-in error type.
+ * @param message - The default message.
+ * @param details - The error details, omitted when not exposed.
+ * @param options - The errors options of the server.
+ * @returns The error response body.
+ */
+const errorResponse = (kind: BuiltinErrorType, message: string, details?: any, options?: ErrorsOptions) => {
+	const override = options?.responses?.[kind]
+
+	return {
 		success: false,
 		error: {
-			type: 'bad_request',
-			message: 'Oops! Looks like there was a problem with your request.',
-			details: exportIssues(error.issues),
+			type: override?.type ?? kind,
+			message: override?.message ?? message,
+			details: options?.details === false ? undefined : details,
 		},
 	}
+}
+
+/**
+ * Replies with a "bad request" error indicating an issue with the request.
+ *
+ * @param error - The RequestError object representing the error.
+ * @param reply - The FastifyReply object used to send the response.
+ * @param metadata - Additional metadata associated with the error (optional).
+ * @param options - The errors options of the server (optional).
+ */
+export const replyBadRequest = (error: RequestError, reply: FastifyReply, metadata?: any, options?: ErrorsOptions) => {
+	const response = errorResponse(
+		'bad_request',
+		'Oops! Looks like there was a problem with your request.',
+		exportIssues(error.issues),
+		options
+	)
 
 	reply.error = error
 
@@ -69,39 +371,63 @@ export const replyBadRequest = (error: RequestError, reply: FastifyReply, metada
  * @param error - The ResponseError object representing the error.
  * @param reply - The FastifyReply object used to send the response.
  * @param metadata - Additional metadata associated with the error (optional).
+ * @param options - The errors options of the server (optional).
  */
-export const replyBadResponse = (error: ResponseError, reply: FastifyReply, metadata?: any) => {
-	const response = {
-		success: false,
-		error: {
-			type: 'bad_response',
-			message: 'Something went wrong with your request while generating the response',
-			details: exportIssues(error.issues),
-		},
-	}
+export const replyBadResponse = (
+	error: ResponseError,
+	reply: FastifyReply,
+	metadata?: any,
+	options?: ErrorsOptions
+) => {
+	const response = errorResponse(
+		'bad_response',
+		'Something went wrong with your request while generating the response',
+		exportIssues(error.issues),
+		options
+	)
 
 	reply.error = error
 
 	reply.status(500).send(response)
 }
 
+const uploadErrorMessages: Record<UploadErrorKind, string> = {
+	file_too_large: "Oops! The file you're trying to upload is too large.",
+	payload_too_large: 'Oops! Your upload has too many files or fields, or a field is too large.',
+	unsupported_media_type: "Oops! The type of the file you're trying to upload isn't supported.",
+}
+
 /**
- * Replies with a "file too large" error response.
+ * Replies with a "file too large" (413), "payload too large" (413) or "unsupported media type" (415) error response,
+ * naming the offending field.
  *
- * @param error - The FastifyError object representing the error.
+ * @param error - The UploadError object representing the error.
  * @param reply - The FastifyReply object used to send the response.
  * @param metadata - Additional metadata associated with the error (optional).
+ * @param options - The errors options of the server (optional).
  */
-export const replyFileTooLarge = (error: FastifyError, reply: FastifyReply, metadata?: any) => {
-	const response = {
-		success: false,
-		error: {
-			type: 'file_too_large',
-			message: "Oops! The file you're trying to upload is too large.",
-		},
-	}
+export const replyUploadError = (error: UploadError, reply: FastifyReply, metadata?: any, options?: ErrorsOptions) => {
+	const response = errorResponse(
+		error.kind,
+		uploadErrorMessages[error.kind],
+		[{ field: error.field, ...error.details }],
+		options
+	)
+
+	reply.status(error.kind === 'unsupported_media_type' ? 415 : 413).send(response)
+}
+
+/**
+ * Replies with a "payload too large" (413) error when the body of a request exceeds the body limit.
+ *
+ * @param reply - The FastifyReply object used to send the response.
+ * @param limit - The body limit of the route, in bytes.
+ * @param options - The errors options of the server (optional).
+ */
+export const replyBodyTooLarge = (reply: FastifyReply, limit: number, options?: ErrorsOptions) => {
+	const response = errorResponse('payload_too_large', 'Oops! Your request body is too large.', [{ limit }], options)
 
-	reply.status(413).send(response)
+	return reply.status(413).send(response)
 }
 
 /**
@@ -110,17 +436,92 @@ export const replyFileTooLarge = (error: FastifyError, reply: FastifyReply, meta
  * @param error - The FastifyError object representing the error.
  * @param reply - The FastifyReply object used to send the response.
  * @param metadata - Additional metadata associated with the error (optional).
+ * @param options - The errors options of the server (optional).
+ */
+export const replyUnknownError = (
+	error: FastifyError,
+	reply: FastifyReply,
+	metadata?: any,
+	options?: ErrorsOptions
+) => {
+	const response = errorResponse(
+		'unknown_error',
+		'An unknown error has occurred during the request.',
+		undefined,
+		options
+	)
+
+	reply.error = error
+
+	reply.status(500).send(response)
+}
+
+/**
+ * Replies with a "not ready" error when the server is starting, stopping or one of its readiness checks fails.
+ *
+ * @param reply - The FastifyReply object used to send the response.
+ * @param details - The status of the server and of its readiness checks.
+ * @param options - The errors options of the server (optional).
+ */
+export const replyNotReady = (reply: FastifyReply, details: Record<string, any>, options?: ErrorsOptions) => {
+	// The details of the errors are arrays
+	const response = errorResponse('not_ready', 'The server is not ready to handle requests.', [details], options)
+
+	return reply.status(503).send(response)
+}
+
+/**
+ * Replies with the error response described by an HttpError thrown during the request.
+ *
+ * @param error - The HttpError object.
+ * @param reply - The FastifyReply object used to send the response.
+ * @param metadata - Additional metadata to be logged.
+ * @param options - The errors options of the server (optional).
  */
-export const replyUnknownError = (error: FastifyError, reply: FastifyReply, metadata?: any) => {
+export const replyHttpError = (error: HttpError, reply: FastifyReply, metadata?: any, options?: ErrorsOptions) => {
 	const response = {
 		success: false,
 		error: {
-			type: 'unknown_error',
-			message: 'An unknown error has occurred during the request.',
+			type: error.type,
+			message: error.message || undefined,
+			details: options?.details === false ? undefined : error.details,
 		},
 	}
 
-	reply.error = error
+	reply.status(Number.isInteger(error.status) && error.status >= 400 ? error.status : 400).send(response)
+}
 
-	reply.status(500).send(response)
+/**
+ * Replies with a "not acceptable" error when none of the formats of the route is accepted by the client.
+ *
+ * @param reply - The FastifyReply object used to send the response.
+ * @param formats - The media types the route can respond with.
+ * @param options - The errors options of the server (optional).
+ */
+export const replyNotAcceptable = (reply: FastifyReply, formats: string[], options?: ErrorsOptions) => {
+	const response = errorResponse(
+		'not_acceptable',
+		`This route can only respond with ${formats.join(', ')}.`,
+		formats,
+		options
+	)
+
+	return reply.status(406).type('application/json; charset=utf-8').send(response)
+}
+
+/**
+ * Replies with an "upgrade required" error when a WebSocket route is requested without the upgrade.
+ *
+ * @param reply - The FastifyReply object used to send the response.
+ * @param options - The errors options of the server (optional).
+ */
+export const replyUpgradeRequired = (reply: FastifyReply, options?: ErrorsOptions) => {
+	const response = errorResponse(
+		'upgrade_required',
+		'This route only accepts WebSocket connections.',
+		undefined,
+		options
+	)
+
+	reply.status(426).header('Upgrade', 'websocket').send(response)
 }
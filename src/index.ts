@@ -2,5 +2,10 @@ export type * from './types.js'
 
 export { Is } from './validator.js'
 export { Logger } from './logger.js'
-export { Server, RequestError, ResponseError } from './server.js'
+export { Context } from './context.js'
+export { Envelopes } from './envelope.js'
+export { Storage } from './storage.js'
+export { Cache } from './cache.js'
+export { Server, RequestError, ResponseError, LoadError, HttpError, UploadError } from './server.js'
 export * as JSX from './jsx.js'
+export { createClient } from './client.js'
@@ -1,5 +1,8 @@
+import { Context } from './context.js'
+import { LogLevel, LoggerOptions } from './types.js'
+
 export namespace Logger {
-	type Level = 'debug' | 'info' | 'warn' | 'error' | 'critical'
+	type Level = LogLevel
 	type Tag = string
 	type LogPipe = (level: Level, tag: Tag, msg: string | Error, metadata?: Record<string, any>) => Promise<void> | void
 
@@ -21,6 +24,107 @@ export namespace Logger {
 
 	const logPipes: LogPipe[] = []
 
+	const levels: Level[] = ['debug', 'info', 'warn', 'error', 'critical']
+
+	const REDACTED = '[REDACTED]'
+	const MAX_DEPTH = 10
+
+	/**
+	 * Parses the `LOG_LEVEL` environment variable, a minimum level followed by the tag overrides (`info,http=warn`).
+	 *
+	 * @param value - The variable value.
+	 * @returns The minimum level & the levels per tag.
+	 */
+	const parseLevels = (value = '') => {
+		const isLevel = (level: string): level is Level => levels.includes(level as Level)
+		const tags: Record<Tag, Level> = {}
+		let level: Level | undefined
+
+		for (let item of value.split(',')) {
+			const [name, tagLevel] = item.trim().toLowerCase().split('=')
+			if (tagLevel === undefined && isLevel(name)) level = name
+			else if (tagLevel !== undefined && isLevel(tagLevel)) tags[name] = tagLevel
+		}
+
+		return { level, tags }
+	}
+
+	const env = parseLevels(process.env.LOG_LEVEL)
+
+	let minLevel: Level = env.level ?? 'debug'
+	const tagLevels: Record<Tag, Level> = env.tags
+	let redactedKeys = new Set([
+		'authorization',
+		'cookie',
+		'set-cookie',
+		'password',
+		'secret',
+		'token',
+		'access_token',
+		'refresh_token',
+		'api_key',
+		'apikey',
+	])
+	let redactedPaths: string[] = []
+	const sampling: Record<Tag, number> = {}
+
+	/**
+	 * Configures the logger, the options are merged with the current ones (except `redact` which replaces them).
+	 *
+	 * @param options - The minimum levels, the redacted metadata & the sampling rates.
+	 */
+	export const configure = (options: LoggerOptions) => {
+		if (options.level) minLevel = options.level
+		for (let [tag, level] of Object.entries(options.tags ?? {})) tagLevels[tag.toLowerCase()] = level
+		for (let [tag, rate] of Object.entries(options.sampling ?? {})) sampling[tag.toLowerCase()] = rate
+
+		if (options.redact) {
+			redactedKeys = new Set(options.redact.filter((key) => !key.includes('.')).map((key) => key.toLowerCase()))
+			redactedPaths = options.redact.filter((key) => key.includes('.'))
+		}
+	}
+
+	/**
+	 * Checks if a log passes the minimum level of its tag and its sampling.
+	 *
+	 * @param level - The log level.
+	 * @param tag - The log tag.
+	 * @returns Whether the log is written.
+	 */
+	const isLogged = (level: Level, tag: Tag) => {
+		const index = levels.indexOf(level)
+		if (index < levels.indexOf(tagLevels[tag.toLowerCase()] ?? minLevel)) return false
+
+		// Only the `debug` & `info` logs are sampled, the warnings & errors are always kept
+		const rate = sampling[tag.toLowerCase()]
+		return rate === undefined || index > levels.indexOf('info') || Math.random() < rate
+	}
+
+	/**
+	 * Replaces the values of the redacted keys & paths of the log metadata.
+	 *
+	 * @param value - The metadata (or one of its values).
+	 * @param path - The dotted path of the value.
+	 * @param depth - The depth of the value, the deeper ones are kept as is.
+	 * @returns A redacted copy of the value.
+	 */
+	const redact = (value: any, path = '', depth = 0): any => {
+		if (depth > MAX_DEPTH || value === null || typeof value !== 'object') return value
+		if (Array.isArray(value)) return value.map((item) => redact(item, path, depth + 1))
+
+		// Only the plain objects are copied (not the dates, buffers, errors...)
+		const prototype = Object.getPrototypeOf(value)
+		if (prototype !== Object.prototype && prototype !== null) return value
+
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => {
+				const itemPath = path ? `${path}.${key}` : key
+				const redacted = redactedKeys.has(key.toLowerCase()) || redactedPaths.includes(itemPath)
+				return [key, redacted ? REDACTED : redact(item, itemPath, depth + 1)]
+			})
+		)
+	}
+
 	/**
 	 * Add a log pipe to the logger, can be use to send logs to an external service.
 	 *
@@ -75,7 +179,7 @@ export namespace Logger {
 		log('critical', tag, msg, metadata)
 
 	/**
-	 * Logs a message in the stdout and all the log pipes.
+	 * Logs a message in the stdout and all the log pipes, if it passes the minimum level of its tag and its sampling.
 	 *
 	 * @param level - The log level.
 	 * @param tag - The log tag.
@@ -83,6 +187,15 @@ export namespace Logger {
 	 * @param metadata - Optional metadata attached to the log.
 	 */
 	export const log = (level: Level, tag: Tag, msg: string | Error, metadata?: Record<string, any>) => {
+		if (!isLogged(level, tag)) return
+
+		// Fields of the current request (request id, route...), if any
+		const context = Context.get()
+		if (context) metadata = { ...context, ...metadata }
+
+		// The sensitive values never reach the stdout nor the log pipes
+		if (metadata) metadata = redact(metadata)
+
 		if (msg instanceof Error) {
 			msg = `[${msg.name}] ${msg.message}\n${msg.stack?.split('\n').slice(1).join('\n') ?? ''}`
 		}
@@ -0,0 +1,511 @@
+import { AnyZodObject, ZodFirstPartyTypeKind, ZodTypeAny, z } from 'zod'
+
+import { envelopeOf } from './envelope.js'
+import { el } from './jsx.js'
+import { Envelope, OpenAPIOptions, RegisteredRoute } from './types.js'
+import { SchemaKind, kindOf, mediaTypeOf } from './validator.js'
+
+type JSONSchema = Record<string, any>
+type IO = 'input' | 'output'
+
+/**
+ * Converts a Zod schema into a JSON Schema (draft 2020-12, as used by OpenAPI 3.1).
+ *
+ * @param schema - The Zod schema to convert.
+ * @param io - Whether the schema describes an incoming (`input`) or outgoing (`output`) value.
+ * @param seen - The lazy schemas already being converted, used to stop infinite recursions.
+ * @returns The JSON Schema.
+ */
+export const toJSONSchema = (schema: ZodTypeAny, io: IO = 'output', seen = new Set<ZodTypeAny>()): JSONSchema => {
+	const json = convert(schema, io, seen)
+	if (schema.description && !json.description) json.description = schema.description
+	return json
+}
+
+const convert = (schema: ZodTypeAny, io: IO, seen: Set<ZodTypeAny>): JSONSchema => {
+	const kind = kindOf(schema)
+	if (kind === 'file' || kind === 'binary') return { type: 'string', format: 'binary' }
+
+	const def = schema._def
+
+	switch (def.typeName as ZodFirstPartyTypeKind) {
+		case ZodFirstPartyTypeKind.ZodString: {
+			const json: JSONSchema = { type: 'string' }
+			for (let check of def.checks) {
+				switch (check.kind) {
+					case 'min':
+						json.minLength = check.value
+						break
+					case 'max':
+						json.maxLength = check.value
+						break
+					case 'length':
+						json.minLength = json.maxLength = check.value
+						break
+					case 'email':
+						json.format = 'email'
+						break
+					case 'url':
+						json.format = 'uri'
+						break
+					case 'uuid':
+						json.format = 'uuid'
+						break
+					case 'datetime':
+						json.format = 'date-time'
+						break
+					case 'ip':
+						json.format = check.version === 'v6' ? 'ipv6' : 'ipv4'
+						break
+					case 'regex':
+						json.pattern = check.regex.source
+						break
+					case 'startsWith':
+						json.pattern ??= `^${escapeRegExp(check.value)}`
+						break
+					case 'endsWith':
+						json.pattern ??= `${escapeRegExp(check.value)}$`
+						break
+				}
+			}
+			return json
+		}
+
+		case ZodFirstPartyTypeKind.ZodNumber: {
+			const json: JSONSchema = { type: 'number' }
+			for (let check of def.checks) {
+				switch (check.kind) {
+					case 'int':
+						json.type = 'integer'
+						break
+					case 'min':
+						if (check.inclusive) json.minimum = check.value
+						else json.exclusiveMinimum = check.value
+						break
+					case 'max':
+						if (check.inclusive) json.maximum = check.value
+						else json.exclusiveMaximum = check.value
+						break
+					case 'multipleOf':
+						json.multipleOf = check.value
+						break
+				}
+			}
+			return json
+		}
+
+		case ZodFirstPartyTypeKind.ZodBigInt:
+			return { type: 'integer', format: 'int64' }
+
+		case ZodFirstPartyTypeKind.ZodBoolean:
+			return { type: 'boolean' }
+
+		case ZodFirstPartyTypeKind.ZodDate:
+			return { type: 'string', format: 'date-time' }
+
+		case ZodFirstPartyTypeKind.ZodNull:
+			return { type: 'null' }
+
+		case ZodFirstPartyTypeKind.ZodUndefined:
+		case ZodFirstPartyTypeKind.ZodVoid:
+		case ZodFirstPartyTypeKind.ZodNever:
+			return { not: {} }
+
+		case ZodFirstPartyTypeKind.ZodLiteral:
+			return def.value === null ? { type: 'null' } : { type: typeof def.value, const: def.value }
+
+		case ZodFirstPartyTypeKind.ZodEnum:
+			return { type: 'string', enum: def.values }
+
+		case ZodFirstPartyTypeKind.ZodNativeEnum: {
+			const values = Object.entries(def.values)
+				.filter(([key]) => typeof def.values[def.values[key]] !== 'number')
+				.map(([_, value]) => value)
+			return { enum: values }
+		}
+
+		case ZodFirstPartyTypeKind.ZodArray: {
+			const json: JSONSchema = { type: 'array', items: toJSONSchema(def.type, io, seen) }
+			if (def.minLength) json.minItems = def.minLength.value
+			if (def.maxLength) json.maxItems = def.maxLength.value
+			if (def.exactLength) json.minItems = json.maxItems = def.exactLength.value
+			return json
+		}
+
+		case ZodFirstPartyTypeKind.ZodSet:
+			return { type: 'array', uniqueItems: true, items: toJSONSchema(def.valueType, io, seen) }
+
+		case ZodFirstPartyTypeKind.ZodTuple: {
+			const json: JSONSchema = {
+				type: 'array',
+				prefixItems: def.items.map((item: ZodTypeAny) => toJSONSchema(item, io, seen)),
+				minItems: def.items.length,
+			}
+			if (def.rest) json.items = toJSONSchema(def.rest, io, seen)
+			else json.maxItems = def.items.length
+			return json
+		}
+
+		case ZodFirstPartyTypeKind.ZodObject: {
+			const shape: Record<string, ZodTypeAny> = def.shape()
+			const properties: Record<string, JSONSchema> = {}
+			const required: string[] = []
+
+			for (let key in shape) {
+				const field = shape[key]
+				properties[key] = toJSONSchema(field, io, seen)
+				if (!isOptional(field, io)) required.push(key)
+			}
+
+			const json: JSONSchema = { type: 'object', properties }
+			if (required.length > 0) json.required = required
+
+			if (def.catchall?._def.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+				json.additionalProperties = toJSONSchema(def.catchall, io, seen)
+			} else if (def.unknownKeys === 'passthrough') {
+				json.additionalProperties = true
+			} else if (def.unknownKeys === 'strict') {
+				json.additionalProperties = false
+			}
+
+			return json
+		}
+
+		case ZodFirstPartyTypeKind.ZodRecord:
+		case ZodFirstPartyTypeKind.ZodMap:
+			return { type: 'object', additionalProperties: toJSONSchema(def.valueType, io, seen) }
+
+		case ZodFirstPartyTypeKind.ZodUnion:
+			return { anyOf: def.options.map((option: ZodTypeAny) => toJSONSchema(option, io, seen)) }
+
+		case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+			return {
+				oneOf: [...def.options.values()].map((option: ZodTypeAny) => toJSONSchema(option, io, seen)),
+				discriminator: { propertyName: def.discriminator },
+			}
+
+		case ZodFirstPartyTypeKind.ZodIntersection:
+			return { allOf: [toJSONSchema(def.left, io, seen), toJSONSchema(def.right, io, seen)] }
+
+		case ZodFirstPartyTypeKind.ZodOptional:
+			return toJSONSchema(def.innerType, io, seen)
+
+		case ZodFirstPartyTypeKind.ZodNullable:
+			return { anyOf: [toJSONSchema(def.innerType, io, seen), { type: 'null' }] }
+
+		case ZodFirstPartyTypeKind.ZodDefault:
+			return { ...toJSONSchema(def.innerType, io, seen), default: def.defaultValue() }
+
+		case ZodFirstPartyTypeKind.ZodCatch:
+		case ZodFirstPartyTypeKind.ZodReadonly:
+			return toJSONSchema(def.innerType, io, seen)
+
+		case ZodFirstPartyTypeKind.ZodBranded:
+			return toJSONSchema(def.type, io, seen)
+
+		case ZodFirstPartyTypeKind.ZodEffects:
+			return toJSONSchema(def.schema, io, seen)
+
+		case ZodFirstPartyTypeKind.ZodPipeline:
+			return toJSONSchema(io === 'input' ? def.in : def.out, io, seen)
+
+		case ZodFirstPartyTypeKind.ZodPromise:
+			return toJSONSchema(def.type, io, seen)
+
+		case ZodFirstPartyTypeKind.ZodLazy: {
+			if (seen.has(schema)) return {}
+			seen.add(schema)
+			const json = toJSONSchema(def.getter(), io, seen)
+			seen.delete(schema)
+			return json
+		}
+
+		default:
+			return {}
+	}
+}
+
+const isOptional = (schema: ZodTypeAny, io: IO): boolean => {
+	const typeName = schema._def.typeName as ZodFirstPartyTypeKind
+
+	if (typeName === ZodFirstPartyTypeKind.ZodDefault) return io === 'input'
+	if (typeName === ZodFirstPartyTypeKind.ZodEffects) return isOptional(schema._def.schema, io)
+
+	return schema.isOptional()
+}
+
+const contentTypeOfKind: { [key in SchemaKind]?: string } = {
+	html: 'text/html',
+	event: 'text/event-stream',
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Returns the shape of an object schema, unwrapping effects (refine, transform, ...) if needed.
+ *
+ * @param schema - The schema to inspect.
+ * @returns The shape of the object schema or `undefined` if it's not an object schema.
+ */
+const shapeOf = (schema: ZodTypeAny | undefined): Record<string, ZodTypeAny> | undefined => {
+	if (!schema) return
+
+	switch (schema._def.typeName as ZodFirstPartyTypeKind) {
+		case ZodFirstPartyTypeKind.ZodObject:
+			return schema._def.shape()
+		case ZodFirstPartyTypeKind.ZodEffects:
+			return shapeOf(schema._def.schema)
+		case ZodFirstPartyTypeKind.ZodOptional:
+		case ZodFirstPartyTypeKind.ZodDefault:
+			return shapeOf(schema._def.innerType)
+	}
+}
+
+/**
+ * Checks whether a schema contains a file (created with `Is.file`) anywhere in its tree.
+ *
+ * @param schema - The schema to inspect.
+ * @returns Whether the schema contains a file or not.
+ */
+const hasFile = (schema: ZodTypeAny | undefined): boolean => {
+	if (!schema) return false
+	if (kindOf(schema) === 'file') return true
+
+	const def = schema._def
+	const children: (ZodTypeAny | undefined)[] = [def.innerType, def.schema, def.type]
+
+	if (def.typeName === ZodFirstPartyTypeKind.ZodObject) children.push(...Object.values<ZodTypeAny>(def.shape()))
+
+	return children.some((child) => child && typeof child === 'object' && '_def' in child && hasFile(child))
+}
+
+/**
+ * Converts a Fastify URL (`/users/:id`) into an OpenAPI path (`/users/{id}`).
+ *
+ * @param url - The Fastify URL.
+ * @returns The OpenAPI path.
+ */
+const toOpenAPIPath = (url: string) => {
+	return (url || '/').replace(/:(\w+)(\([^)]*\))?/g, '{$1}').replace(/\*$/, '{wildcard}')
+}
+
+const parametersOf = (schema: ZodTypeAny | undefined, location: 'path' | 'query') => {
+	const shape = shapeOf(schema) ?? {}
+
+	return Object.entries(shape).map(([name, field]) => {
+		const schema = toJSONSchema(field, 'input')
+
+		return {
+			name,
+			in: location,
+			required: location === 'path' || !isOptional(field, 'input'),
+			description: field.description,
+			schema,
+			// Nested objects use the bracket syntax (`?filter[status]=open`)
+			...(location === 'query' && schema.type === 'object' && { style: 'deepObject', explode: true }),
+		}
+	})
+}
+
+/**
+ * Returns the OpenAPI headers of a response from its `responseHeaders` schema.
+ *
+ * @param schema - The headers schema of the response.
+ * @param kind - The kind of the response schema, the redirects have a `location` header by default.
+ * @returns The OpenAPI headers, or `undefined` if there is none.
+ */
+const headersOf = (schema: ZodTypeAny | undefined, kind?: SchemaKind) => {
+	const shape = shapeOf(schema) ?? (kind === 'redirect' ? { location: z.string().url() } : {})
+	if (Object.keys(shape).length === 0) return undefined
+
+	return Object.fromEntries(
+		Object.entries(shape).map(([name, field]) => [
+			name,
+			{ required: !isOptional(field, 'input'), description: field.description, schema: toJSONSchema(field, 'input') },
+		])
+	)
+}
+
+/**
+ * Returns the schema & content type of a response as sent by the server, i.e. the `Is.success` & `Is.error` schemas
+ * wrapped in the envelope.
+ *
+ * @param response - The response schema.
+ * @param envelope - The envelope of the responses.
+ * @returns The wrapped schema and its content type.
+ */
+const wrapResponse = (response: ZodTypeAny, envelope: Envelope) => {
+	const kind = kindOf(response)
+
+	if (kind === 'success') {
+		return {
+			schema: envelope.schemas.success((response as AnyZodObject).shape.data),
+			contentType: envelope.contentType ?? 'application/json',
+		}
+	}
+
+	if (kind === 'error') {
+		return {
+			schema: envelope.schemas.error((response as AnyZodObject).shape.error.shape.type.options),
+			contentType: envelope.errorContentType ?? envelope.contentType ?? 'application/json',
+		}
+	}
+
+	if (kind === 'binary') return { schema: response, contentType: mediaTypeOf(response)! }
+
+	return { schema: response, contentType: contentTypeOfKind[kind!] ?? 'application/json' }
+}
+
+/**
+ * Generates an OpenAPI 3.1 document from the routes registered on the server.
+ *
+ * @param routes - The registered routes.
+ * @param options - The OpenAPI options (info, servers, ...).
+ * @param envelope - The envelope of the responses, default to `{ success, data }`.
+ * @returns The OpenAPI document.
+ */
+export const generateOpenAPI = (
+	routes: RegisteredRoute[],
+	options?: OpenAPIOptions,
+	envelope: Envelope = envelopeOf()
+) => {
+	const paths: Record<string, Record<string, any>> = {}
+
+	for (let { resource, name, method, url, route } of routes) {
+		const { openapi } = route.config ?? {}
+		if (openapi === false || route.method === 'WS') continue
+
+		const schema = route.schema
+		const operation: Record<string, any> = {
+			operationId: openapi?.operationId ?? `${resource}.${name}`,
+			summary: openapi?.summary,
+			description: openapi?.description,
+			tags: openapi?.tags ?? [resource],
+			deprecated: openapi?.deprecated,
+		}
+
+		const parameters = [...parametersOf(schema?.params, 'path'), ...parametersOf(schema?.querystring, 'query')]
+		if (parameters.length > 0) operation.parameters = parameters
+
+		if (schema?.body) {
+			const body = toJSONSchema(schema.body, 'input')
+			operation.requestBody = {
+				required: !schema.body.isOptional(),
+				content: hasFile(schema.body)
+					? { 'multipart/form-data': { schema: body } }
+					: { 'application/json': { schema: body }, 'application/x-www-form-urlencoded': { schema: body } },
+			}
+		}
+
+		operation.responses = {}
+		for (let status in schema?.response ?? {}) {
+			const response = schema!.response[status]
+			const kind = kindOf(response)
+			const { schema: wrapped, contentType } = wrapResponse(response, envelope)
+			const headers = headersOf(schema!.responseHeaders?.[status], kind)
+
+			// The alternate formats (e.g. CSV) encode the data of the success responses
+			const formats =
+				kind === 'success'
+					? (route.config?.formats ?? []).map((format) => [
+							format,
+							{ schema: toJSONSchema((response as AnyZodObject).shape.data, 'output') },
+						])
+					: []
+
+			operation.responses[status] = {
+				description: response.description ?? `${status} response`,
+				headers,
+				content:
+					kind === 'empty' || kind === 'redirect'
+						? undefined
+						: {
+								[contentType]: { schema: toJSONSchema(wrapped, 'output') },
+								...Object.fromEntries(formats),
+							},
+			}
+		}
+		if (Object.keys(operation.responses).length === 0) {
+			operation.responses.default = { description: 'Undocumented response' }
+		}
+
+		const path = toOpenAPIPath(url)
+		paths[path] = { ...paths[path], [method.toLowerCase()]: operation }
+	}
+
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: options?.info?.title ?? process.env.npm_package_name ?? 'API',
+			version: options?.info?.version ?? process.env.npm_package_version ?? '0.0.0',
+			description: options?.info?.description,
+		},
+		servers: options?.servers,
+		paths,
+	}
+}
+
+/**
+ * Renders a self-hosted HTML documentation page from an OpenAPI document.
+ *
+ * @param document - The OpenAPI document to render.
+ * @param specUrl - The URL where the raw OpenAPI document is served.
+ * @returns The HTML page.
+ */
+export const renderDocsPage = (document: ReturnType<typeof generateOpenAPI>, specUrl: string) => {
+	const json = (value: any) => el('pre', null, JSON.stringify(value, null, 2))
+
+	const operations = Object.entries(document.paths).flatMap(([path, methods]) =>
+		Object.entries(methods).map(([method, operation]) =>
+			el(
+				'details',
+				{ class: `operation ${method}` },
+				el(
+					'summary',
+					null,
+					el('span', { class: 'method' }, method.toUpperCase()),
+					el('code', null, path),
+					el('span', { class: 'summary' }, operation.summary ?? operation.operationId)
+				),
+				operation.description ? el('p', null, operation.description) : null,
+				operation.parameters ? el('div', null, el('h4', null, 'Parameters'), json(operation.parameters)) : null,
+				operation.requestBody ? el('div', null, el('h4', null, 'Request body'), json(operation.requestBody)) : null,
+				el('div', null, el('h4', null, 'Responses'), json(operation.responses))
+			)
+		)
+	)
+
+	const page = el(
+		'html',
+		{ lang: 'en' },
+		el(
+			'head',
+			null,
+			el('meta', { charset: 'utf-8' }),
+			el('meta', { name: 'viewport', content: 'width=device-width, initial-scale=1' }),
+			el('title', null, document.info.title),
+			el('style', {
+				__innerhtml: [
+					'body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #222; }',
+					'details { border: 1px solid #ddd; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 1rem; }',
+					'summary { cursor: pointer; display: flex; gap: 1rem; align-items: center; }',
+					'.method { font-weight: bold; min-width: 4rem; }',
+					'.get .method { color: #2b7bb9; } .post .method { color: #2f9e44; } .put .method { color: #e67700; }',
+					'.patch .method { color: #9c36b5; } .delete .method { color: #e03131; }',
+					'.summary { color: #666; }',
+					'pre { background: #f6f8fa; padding: 0.75rem; overflow: auto; font-size: 0.8rem; }',
+				].join('\n'),
+			})
+		),
+		el(
+			'body',
+			null,
+			el('h1', null, `${document.info.title} `, el('small', null, document.info.version)),
+			document.info.description ? el('p', null, document.info.description) : null,
+			el('p', null, el('a', { href: specUrl }, 'OpenAPI document (JSON)')),
+			...operations
+		)
+	)
+
+	return '<!DOCTYPE html>' + page.render()
+}
@@ -0,0 +1,216 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod'
+
+import { parseDate } from './dates.js'
+import { isNumber } from './utils.js'
+
+const MAX_DEPTH = 5
+
+const isObject = (value: any): value is Record<string, any> => {
+	return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+const decode = (value: string) => {
+	try {
+		return decodeURIComponent(value.replace(/\+/g, ' '))
+	} catch (_) {
+		return value
+	}
+}
+
+/**
+ * Splits a query key into its path, e.g. `filter[status]` → `['filter', 'status']` and `id[]` → `['id', '']`.
+ *
+ * @param key - The decoded query key.
+ * @returns The path of the key, the brackets deeper than the maximum depth are kept in the last segment.
+ */
+const pathOfKey = (key: string) => {
+	const match = key.match(/^([^[\]]+)((?:\[[^[\]]*\])*)(.*)$/)
+	if (!match || (!match[2] && !match[3])) return [key]
+
+	const path = [match[1], ...[...match[2].matchAll(/\[([^[\]]*)\]/g)].map(([, segment]) => segment)]
+	if (path.length <= MAX_DEPTH + 1 && !match[3]) return path
+
+	return [
+		...path.slice(0, MAX_DEPTH),
+		path
+			.slice(MAX_DEPTH)
+			.map((segment) => `[${segment}]`)
+			.join('') + match[3],
+	]
+}
+
+/**
+ * Parses a query string: repeated keys (`?id=1&id=2`) and `[]` suffixes (`?id[]=1`) build arrays, brackets build
+ * nested objects (`?filter[status]=open`). The values are kept as strings, see `coerceQuery`.
+ *
+ * @param query - The query string, without the leading `?`.
+ * @returns The parsed query.
+ */
+export const parseQuery = (query: string): Record<string, any> => {
+	const result: Record<string, any> = {}
+
+	for (let pair of query.split('&')) {
+		if (!pair) continue
+
+		const separator = pair.indexOf('=')
+		const key = decode(separator === -1 ? pair : pair.slice(0, separator))
+		const value = separator === -1 ? '' : decode(pair.slice(separator + 1))
+
+		const path = pathOfKey(key)
+		if (path.some((segment) => segment === '__proto__' || segment === 'constructor' || segment === 'prototype')) {
+			continue
+		}
+
+		let container: any = result
+
+		for (let i = 0; i < path.length; i++) {
+			const segment = path[i]
+			const last = i === path.length - 1
+
+			if (Array.isArray(container)) {
+				// Only `[]` appends to an array, the indexes (`[0]`) build objects converted by `coerceQuery`
+				if (segment !== '') break
+
+				if (last) container.push(value)
+				else container = container[container.push(path[i + 1] === '' ? [] : {}) - 1]
+			} else if (last) {
+				const current = container[segment]
+				container[segment] = current === undefined ? value : [...(Array.isArray(current) ? current : [current]), value]
+			} else {
+				const current = container[segment]
+
+				if (path[i + 1] === '' && !Array.isArray(current)) {
+					container[segment] = current === undefined ? [] : typeof current === 'string' ? [current] : current
+				} else if (typeof current !== 'object') {
+					container[segment] = {}
+				}
+
+				container = container[segment]
+			}
+		}
+	}
+
+	return result
+}
+
+/**
+ * Returns the items of a query value expected to be an array: a single value, a comma list or an object with indexes
+ * as keys (`?id[0]=1&id[1]=2`).
+ *
+ * @param value - The query value.
+ * @returns The items.
+ */
+const itemsOf = (value: any): any[] => {
+	if (Array.isArray(value)) return value
+	if (typeof value === 'string') return value.split(',')
+
+	if (isObject(value) && Object.keys(value).every((key) => /^\d+$/.test(key))) {
+		return Object.keys(value)
+			.sort((a, b) => parseInt(a) - parseInt(b))
+			.map((key) => value[key])
+	}
+
+	return [value]
+}
+
+/**
+ * Coerces the entries of a query object, each one according to its schema.
+ *
+ * @param value - The query object.
+ * @param schemaOf - Returns the schema of an entry from its key.
+ * @returns The coerced object.
+ */
+const coerceEntries = async (value: Record<string, any>, schemaOf: (key: string) => ZodTypeAny | undefined) => {
+	const entries = Object.entries(value).map(async ([key, item]) => [key, await coerceQuery(item, schemaOf(key))])
+	return Object.fromEntries(await Promise.all(entries))
+}
+
+/**
+ * Coerces the values of a parsed query according to the route `querystring` schema: numbers, booleans, dates,
+ * enums and literals are converted from their string form, arrays accept a single value or a comma list.
+ * The values that can't be coerced are left as is, so that the validation reports them. Asynchronous, as the union
+ * options are tried with their (possibly asynchronous) refinements.
+ *
+ * @param value - The parsed query (or a value of it).
+ * @param schema - The schema of the value.
+ * @returns The coerced value.
+ */
+export const coerceQuery = async (value: any, schema: ZodTypeAny | undefined): Promise<any> => {
+	if (!schema || value === undefined) return value
+
+	const def = schema._def
+
+	switch (def.typeName as ZodFirstPartyTypeKind) {
+		case ZodFirstPartyTypeKind.ZodOptional:
+		case ZodFirstPartyTypeKind.ZodNullable:
+		case ZodFirstPartyTypeKind.ZodDefault:
+		case ZodFirstPartyTypeKind.ZodCatch:
+		case ZodFirstPartyTypeKind.ZodReadonly:
+			if (def.typeName === ZodFirstPartyTypeKind.ZodNullable && value === 'null') return null
+			return coerceQuery(value, def.innerType)
+		case ZodFirstPartyTypeKind.ZodEffects:
+			return coerceQuery(value, def.schema)
+		case ZodFirstPartyTypeKind.ZodBranded:
+			return coerceQuery(value, def.type)
+		case ZodFirstPartyTypeKind.ZodPipeline:
+			return coerceQuery(value, def.in)
+		case ZodFirstPartyTypeKind.ZodLazy:
+			return coerceQuery(value, def.getter())
+
+		case ZodFirstPartyTypeKind.ZodNumber:
+			return typeof value === 'string' && isNumber(value) ? Number(value) : value
+		case ZodFirstPartyTypeKind.ZodBigInt:
+			return typeof value === 'string' && /^-?\d+$/.test(value) ? BigInt(value) : value
+		case ZodFirstPartyTypeKind.ZodBoolean:
+			if (value === 'true' || value === '1' || value === '') return true
+			if (value === 'false' || value === '0') return false
+			return value
+		case ZodFirstPartyTypeKind.ZodDate:
+			return typeof value === 'string' ? parseDate(value) ?? value : value
+		case ZodFirstPartyTypeKind.ZodNull:
+			return value === 'null' ? null : value
+		case ZodFirstPartyTypeKind.ZodLiteral:
+			return typeof value === 'string' && String(def.value) === value ? def.value : value
+		case ZodFirstPartyTypeKind.ZodNativeEnum: {
+			const match = Object.values(def.values).find((option) => String(option) === value)
+			return match ?? value
+		}
+
+		case ZodFirstPartyTypeKind.ZodArray: {
+			const items = itemsOf(value)
+			return Promise.all(items.map((item) => coerceQuery(item, def.type)))
+		}
+		case ZodFirstPartyTypeKind.ZodSet: {
+			const items = itemsOf(value)
+			return new Set(await Promise.all(items.map((item) => coerceQuery(item, def.valueType))))
+		}
+		case ZodFirstPartyTypeKind.ZodTuple: {
+			const items = itemsOf(value)
+			return Promise.all(items.map((item, i) => coerceQuery(item, def.items[i] ?? def.rest)))
+		}
+		case ZodFirstPartyTypeKind.ZodObject: {
+			if (!isObject(value)) return value
+
+			const shape = def.shape()
+			return coerceEntries(value, (key) => shape[key])
+		}
+		case ZodFirstPartyTypeKind.ZodRecord:
+			if (!isObject(value)) return value
+			return coerceEntries(value, () => def.valueType)
+
+		case ZodFirstPartyTypeKind.ZodUnion:
+		case ZodFirstPartyTypeKind.ZodDiscriminatedUnion: {
+			const options: ZodTypeAny[] = [...def.options.values()]
+
+			for (let option of options) {
+				const coerced = await coerceQuery(value, option)
+				if ((await option.safeParseAsync(coerced)).success) return coerced
+			}
+
+			return value
+		}
+
+		default:
+			return value
+	}
+}
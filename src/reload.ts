@@ -0,0 +1,133 @@
+import { watch } from 'fs'
+import { globSync } from 'glob'
+import path from 'path'
+import { pathToFileURL } from 'url'
+
+import { Logger } from './logger.js'
+import { RegisteredRoute, Route, SocketRoute } from './types.js'
+
+const isNamespace = (value: any): value is Record<string, any> => {
+	return value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+}
+
+/**
+ * Watches the resources directory and hot reloads the changed modules: namespaces (`export namespace X {}`) are
+ * patched in place, and the controllers, middlewares & schemas of the registered routes are swapped by the new ones.
+ *
+ * @param root - The resources directory.
+ * @param extensions - The extensions of the resources files.
+ * @param registry - The registered routes, updated in place.
+ * @returns The file system watcher(s).
+ */
+export const watchResources = (
+	root: string,
+	extensions: string[],
+	registry: RegisteredRoute[]
+): { close: () => void } => {
+	// Old exported values → new exported values, accumulated over the reloads
+	const swaps = new Map<any, any>()
+	// Registered routes → route objects they were built from
+	const sources = new Map<RegisteredRoute, Route | SocketRoute>()
+	const timers = new Map<string, NodeJS.Timeout>()
+
+	const resolve = <T>(value: T): T => {
+		while (swaps.has(value)) value = swaps.get(value)
+		return value
+	}
+
+	const reload = async (file: string) => {
+		const url = pathToFileURL(path.resolve(root, file)).href
+
+		try {
+			const current = await import(url)
+			const fresh = await import(`${url}?t=${Date.now()}`)
+
+			for (let name in fresh) {
+				const prev = current[name]
+				const next = fresh[name]
+
+				if (isNamespace(prev) && isNamespace(next)) {
+					for (let key in next) {
+						if (prev[key] !== next[key] && prev[key] !== undefined) swaps.set(resolve(prev[key]), next[key])
+					}
+
+					Object.assign(prev, next)
+				} else if (prev !== next && prev !== undefined) {
+					swaps.set(resolve(prev), next)
+				}
+			}
+
+			const reloaded: string[] = []
+
+			for (let entry of registry) {
+				const route = resolve(sources.get(entry) ?? entry.route)
+				sources.set(entry, route)
+
+				const { method, path } = entry.route
+
+				if (route.method !== method || route.path !== path) {
+					Logger.warn('reload', `${entry.resource}.${entry.name} changed its method or path, restart required`)
+					continue
+				}
+
+				const next: Route | SocketRoute =
+					route.method === 'WS'
+						? {
+								...route,
+								handler: resolve(route.handler),
+								middlewares: route.middlewares?.map(resolve),
+								schema: resolve(route.schema),
+							}
+						: {
+								...route,
+								controller: resolve(route.controller),
+								middlewares: route.middlewares?.map(resolve),
+								schema: resolve(route.schema),
+							}
+
+				const changed =
+					('controller' in next && next.controller !== (entry.route as Route).controller) ||
+					('handler' in next && next.handler !== (entry.route as SocketRoute).handler) ||
+					next.schema !== entry.route.schema ||
+					next.middlewares?.some((middleware, i) => middleware !== entry.route.middlewares?.[i])
+
+				entry.route = next
+				if (changed) reloaded.push(`${entry.resource}.${entry.name}`)
+			}
+
+			Logger.info('reload', `${file} reloaded${reloaded.length > 0 ? ` (${reloaded.join(', ')})` : ''}`)
+		} catch (ex: any) {
+			Logger.error('reload', ex, { file })
+		}
+	}
+
+	const pattern = new RegExp(`\\.(${extensions.map((ext) => ext.replace(/\./g, '\\.')).join('|')})$`)
+
+	const onChange = (directory: string, filename: string | null) => {
+		if (!filename || !pattern.test(filename) || filename.endsWith('.d.ts')) return
+
+		const file = path.join(directory, filename).split(path.sep).join('/')
+
+		clearTimeout(timers.get(file))
+		timers.set(
+			file,
+			setTimeout(() => {
+				timers.delete(file)
+				reload(file)
+			}, 100)
+		)
+	}
+
+	try {
+		return watch(root, { recursive: true }, (_, filename) => onChange('', filename))
+	} catch (ex: any) {
+		if (ex.code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw ex
+	}
+
+	// The recursive watchers need Node 20 on Linux, each directory is watched instead (the new ones aren't)
+	const directories = ['', ...globSync('**/', { cwd: root, posix: true }).filter((dir) => dir !== '.')]
+	const watchers = directories.map((dir) => watch(path.join(root, dir), (_, filename) => onChange(dir, filename)))
+	Logger.debug('reload', `Recursive watch unavailable, watching ${directories.length} directories instead`)
+
+	return { close: () => watchers.forEach((watcher) => watcher.close()) }
+}
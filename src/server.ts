@@ -1,21 +1,80 @@
 import formbody from '@fastify/formbody'
-import multipart, { FastifyMultipartBaseOptions, Multipart, MultipartFile } from '@fastify/multipart'
+import multipart, { Multipart, MultipartFile } from '@fastify/multipart'
+import websocket from '@fastify/websocket'
 import { randomUUID } from 'crypto'
-import fastify, { FastifyBaseLogger, FastifyInstance, FastifyListenOptions, FastifyServerOptions } from 'fastify'
-import { createWriteStream } from 'fs'
-import { unlink } from 'fs/promises'
+import fastify, {
+	FastifyBaseLogger,
+	FastifyError,
+	FastifyInstance,
+	FastifyListenOptions,
+	FastifyReply,
+	FastifyRequest,
+} from 'fastify'
+import { writeFile } from 'fs/promises'
 import { glob } from 'glob'
 import { ServerResponse as HTTPResponse, Server as HTTPServer, IncomingMessage } from 'http'
-import { extensions } from 'mime-types'
-import { tmpdir } from 'os'
 import path from 'path'
-import { pipeline } from 'stream/promises'
-import { ZodAny, ZodIssue } from 'zod'
+import { ZodAny, ZodArray, ZodIssue, ZodObject, ZodTypeAny } from 'zod'
 
-import { replyBadRequest, replyBadResponse, replyFileTooLarge, replyUnknownError, replyWrapper } from './helpers.js'
+import {
+	replyBadRequest,
+	replyBadResponse,
+	replyBodyTooLarge,
+	replyHttpError,
+	replyNotAcceptable,
+	replyNotReady,
+	replyUnknownError,
+	replyUpgradeRequired,
+	replyUploadError,
+	replyWrapper,
+	runMiddlewares,
+	socketWrapper,
+} from './helpers.js'
+import { ResponseCache, cacheControlOf, createResponseCache, varyOf } from './cache.js'
+import { Context } from './context.js'
+import { parseDates, stringifyJSON } from './dates.js'
+import { entityTag, isFresh } from './download.js'
+import { envelopeOf, wrapPayload } from './envelope.js'
+import { negotiate, toCSV } from './formats.js'
 import { Logger } from './logger.js'
-import { Middleware, PluginsOptions, Route, ServerRequest, ZodTypeProvider } from './types.js'
-import { exportIssues, isField, isFile, parseDatesInObject, pathOf } from './utils.js'
+import { generateOpenAPI, renderDocsPage } from './openapi.js'
+import { coerceQuery, parseQuery } from './query.js'
+import { watchResources } from './reload.js'
+import { Storage, acceptsFile } from './storage.js'
+import {
+	Envelope,
+	ErrorHandler,
+	ErrorStatus,
+	HealthCheck,
+	Middleware,
+	OpenAPIOptions,
+	PluginsOptions,
+	RegisteredRoute,
+	Route,
+	RouteInfo,
+	Schema,
+	SchemaType,
+	Serializer,
+	ServerOptions,
+	ServerRequest,
+	SocketRoute,
+	StorageAdapter,
+	UploadErrorKind,
+	UploadedFile,
+	ZodTypeProvider,
+} from './types.js'
+import {
+	exportIssues,
+	fieldsOf,
+	isField,
+	isFile,
+	isRouter,
+	pathOf,
+	responseSchemaOf,
+	unwrapSchema,
+	urlOf,
+} from './utils.js'
+import { kindOf } from './validator.js'
 
 // Error thrown when the request schema validation failed
 export class RequestError extends Error {
@@ -39,6 +98,66 @@ export class ResponseError extends Error {
 	}
 }
 
+// Error thrown when an uploaded file or field is rejected (too large, too many parts, unsupported type)
+export class UploadError extends Error {
+	public kind: UploadErrorKind
+	public field?: string
+	public details: Record<string, any>
+
+	constructor(kind: UploadErrorKind, field: string | undefined, details: Record<string, any>) {
+		super(`Upload rejected (${kind})${field ? ` on the ${field} field` : ''}`)
+		this.kind = kind
+		this.field = field
+		this.details = details
+	}
+}
+
+// Error thrown (or logged) when a resource or a route fails to load
+export class LoadError extends Error {
+	constructor(target: string, reason: string | Error) {
+		super(`${target} fails to load: ${reason instanceof Error ? reason.message : reason}`, { cause: reason })
+		if (reason instanceof Error) this.stack = reason.stack
+	}
+}
+
+// Error thrown anywhere during a request (controllers, middlewares, services...) to reply with an error response
+export class HttpError<S extends number = number, T extends string = string> extends Error {
+	public status: S
+	public type: T
+	public details?: any[]
+
+	constructor(status: S, type: T, message?: string, details?: any[]) {
+		super(message ?? '')
+		this.name = 'HttpError'
+		this.status = status
+		this.type = type
+		this.details = details
+	}
+
+	/**
+	 * Returns a factory of errors checked against the error responses of a route schema, e.g.
+	 * `const fail = HttpError.typed<UserType>()` then `throw fail(404, 'not_found')`.
+	 *
+	 * @returns The typed error factory.
+	 */
+	static typed<T extends SchemaType<Schema>>() {
+		return <R extends ErrorStatus<T>>(
+			status: R,
+			type: T['response'][R]['error']['type'],
+			message?: string,
+			details?: any[]
+		) => new HttpError(status, type, message, details)
+	}
+}
+
+// The codes of the limit errors of the multipart plugin
+const multipartLimitCodes = ['FST_REQ_FILE_TOO_LARGE', 'FST_FILES_LIMIT', 'FST_FIELDS_LIMIT', 'FST_PARTS_LIMIT']
+
+// The parts of the requests validated against the route schemas
+type RequestPart = 'querystring' | 'body' | 'params'
+
+type LoadableRouter = { name: string; router: object; prefix: string; type?: string }
+
 export class Server {
 	public instance: FastifyInstance<
 		HTTPServer<typeof IncomingMessage, typeof HTTPResponse>,
@@ -48,17 +167,45 @@ export class Server {
 		ZodTypeProvider
 	>
 
-	constructor(
-		options?: FastifyServerOptions<HTTPServer, FastifyBaseLogger> & {
-			multipartLimits?: FastifyMultipartBaseOptions['limits']
-		}
-	) {
+	private registry: RegisteredRoute[] = []
+	// Registry entries by `method url`, looked up on every request
+	private entries = new Map<string, RegisteredRoute>()
+	private openapiOptions?: OpenAPIOptions
+	private loading?: Promise<void>
+	private registered: LoadableRouter[] = []
+	private failures: LoadError[] = []
+	private options: ServerOptions
+	private envelope: Envelope
+	private contexts = new WeakMap<object, Record<string, any>>()
+	private status: 'starting' | 'ready' | 'stopping' = 'starting'
+	private checks = new Map<string, HealthCheck>()
+	private stopping?: Promise<void>
+	private errorHandlers: [new (...args: any[]) => Error, ErrorHandler<any>][] = []
+	private serializers = new Map<string, Serializer>([['text/csv', toCSV]])
+	private storage: StorageAdapter
+	private multipartLimits: NonNullable<ServerOptions['multipartLimits']>
+	private cache: ResponseCache
+	private formats = new WeakMap<object, string>()
+	private uploads = new WeakMap<
+		object,
+		{ fieldname: string; file: UploadedFile; storage: StorageAdapter; keep?: boolean }[]
+	>()
+
+	constructor(options?: ServerOptions) {
+		this.options = options ?? {}
+		this.envelope = envelopeOf(options?.envelope)
+		this.storage = options?.storage ?? Storage.temp()
+		this.cache = createResponseCache(options?.cache)
+
 		this.instance = fastify({
 			// Recommended
 			connectionTimeout: 60_000, // 60s
 			bodyLimit: 32 * 1_048_576, // 32 MB
 			caseSensitive: true,
 			maxParamLength: 256,
+			requestIdHeader: 'x-request-id',
+			genReqId: () => randomUUID(),
+			querystringParser: parseQuery,
 
 			// User customizations
 			...options,
@@ -70,28 +217,40 @@ export class Server {
 		}).withTypeProvider<ZodTypeProvider>()
 
 		// Request schema validation
-		this.instance.setValidatorCompiler<ZodAny>(({ method, url, schema }) => {
-			return (data): any => {
-				const result = schema.safeParse(data)
+		this.instance.setValidatorCompiler<ZodAny>(({ method, url, schema, httpPart }) => {
+			const entry = this.options.watch ? this.entryOf(method, url) : undefined
+			const part = httpPart === 'querystring' || httpPart === 'body' || httpPart === 'params' ? httpPart : undefined
+
+			// Asynchronous, for the refinements querying a database (Fastify awaits the returned promise, the coercion
+			// included so that it only ever rejects it)
+			return async (data): Promise<any> => {
+				// In watch mode, the schema can be hot reloaded
+				const schemas: { [key in RequestPart]?: ZodTypeAny } | undefined = entry?.route.schema
+				const current: ZodTypeAny = (part && schemas?.[part]) ?? schema
+
+				// The query values are strings, they are coerced according to the schema
+				const input = httpPart === 'querystring' ? await coerceQuery(data, current) : data
+
+				const result = await current.safeParseAsync(input)
 				if (result.success) return { value: result.data }
 				return { error: new RequestError(method, url, result.error.issues) }
 			}
 		})
 
-		// Response schema validation
-		this.instance.setSerializerCompiler<ZodAny | { properties: ZodAny }>(({ method, url, schema }) => {
-			return (data) => {
-				if (data.success === false) return JSON.stringify(data)
+		// Response serialization, the payloads are already validated & wrapped by the `preSerialization` hook
+		this.instance.setSerializerCompiler<ZodAny | { properties: ZodAny }>(({ method, url }) => {
+			let entry: RegisteredRoute | undefined
 
-				const result = ('properties' in schema ? schema.properties : schema).safeParse(data)
-				if (result.success) return JSON.stringify(result.data)
+			return (data) => {
+				// The route is registered once mounted, after the compilation
+				entry ??= this.entryOf(method, url)
 
-				throw new ResponseError(method, url, result.error.issues)
+				return stringifyJSON(data, entry?.route.config?.dates?.serialize ?? this.options.dates?.serialize)
 			}
 		})
 
 		// Handle request/response errors & unknown errors
-		this.instance.setErrorHandler((error, req, reply) => {
+		this.instance.setErrorHandler<FastifyError | HttpError>(async (error, req, reply) => {
 			const metadata = {
 				method: req.method,
 				path: req.routeOptions.config.url ?? pathOf(req.url) ?? req.url,
@@ -100,78 +259,171 @@ export class Server {
 				query: req.query,
 			}
 
-			if (error instanceof RequestError) return replyBadRequest(error, reply, metadata)
-			else if (error instanceof ResponseError) return replyBadResponse(error, reply, metadata)
-			else if (error.code === 'FST_REQ_FILE_TOO_LARGE') {
-				return replyFileTooLarge(error, reply, {
-					...metadata,
-					limit: options?.multipartLimits?.fileSize ?? 256 * 1_048_576,
-				})
-			} else return replyUnknownError(error, reply, metadata)
-		})
-
-		// Register the multipart plugin to handle multipart/form-data requests
-		this.instance.register(multipart, {
-			attachFieldsToBody: true,
-			throwFileSizeLimit: true,
-			onFile: async function (part: MultipartFile & { filepath?: string }) {
-				let filename = randomUUID()
+			const errors = this.options.errors
 
-				const exts = extensions[part.mimetype] || []
-				if (exts.length === 1) filename += `.${exts[0]}`
-				else if (exts.length > 1) filename += '.' + (exts[0].length < exts[1].length ? exts[0] : exts[1])
+			try {
+				await errors?.report?.(error, req as ServerRequest)
+			} catch (ex: any) {
+				Logger.error('server', ex, { pipe: false })
+			}
 
-				const path = `${tmpdir()}/${filename}`
+			// Handlers registered with `catch`, in order, until one maps the error or replies
+			for (let [ErrorClass, handler] of this.errorHandlers) {
+				if (!(error instanceof ErrorClass)) continue
 
 				try {
-					await pipeline(part.file, createWriteStream(path))
+					const result = await handler(error, req as ServerRequest, replyWrapper(reply))
+					if (reply.sent) return reply
 
-					part.filepath = path
-					this.socket.on('close', () => unlink(path))
-				} catch (_) {
-					await unlink(path)
+					if (result instanceof HttpError) {
+						error = result
+						break
+					}
+				} catch (ex: any) {
+					Logger.error('server', ex, { error: error.message })
 				}
-			},
-			limits: {
-				fieldSize: 32 * 1_048_576, // 32 MB,
-				fileSize: 256 * 1_048_576, // 256 MB
-				files: 10,
-				...options?.multipartLimits,
-			},
+			}
+
+			// The reply is returned (and awaited by Fastify) as the handler is asynchronous
+			if (error instanceof HttpError) replyHttpError(error, reply, metadata, errors)
+			else if (error instanceof RequestError) replyBadRequest(error, reply, metadata, errors)
+			else if (error instanceof ResponseError) replyBadResponse(error, reply, metadata, errors)
+			else if (error instanceof UploadError) replyUploadError(error, reply, metadata, errors)
+			else if (multipartLimitCodes.includes(error.code)) {
+				// Limits reached while reading the files in a controller (`req.file()`, `req.parts()`...)
+				replyUploadError(this.uploadErrorOf(error, req), reply, metadata, errors)
+			} else if (error.code === 'FST_ERR_CTP_BODY_TOO_LARGE') {
+				replyBodyTooLarge(reply, req.routeOptions.bodyLimit, errors)
+			} else replyUnknownError(error, reply, metadata, errors)
+
+			return reply
 		})
 
+		// Register the multipart plugin to handle multipart/form-data requests (parsed by `parseMultipart`)
+		this.multipartLimits = {
+			fieldSize: 32 * 1_048_576, // 32 MB,
+			fileSize: 256 * 1_048_576, // 256 MB
+			files: 10,
+			...options?.multipartLimits,
+		}
+		this.instance.register(multipart, { throwFileSizeLimit: true, limits: this.multipartLimits })
+
+		// Register the websocket plugin to handle the WebSocket routes
+		this.instance.register(websocket, { options: options?.websocket })
+
 		// Register the formbody plugin to handle application/x-www-form-urlencoded requests
 		this.instance.register(formbody, {
 			bodyLimit: options?.bodyLimit ?? 32 * 1_048_576, // 32 MB,
 		})
 
-		// Request parsing for all incoming requests
-		this.instance.addHook('preValidation', async (req: ServerRequest) => {
-			if (req.isMultipart()) {
-				const body: Multipart[] = Object.values(req.body ?? {})
+		// Request context filled by the middlewares
+		this.instance.decorateRequest('ctx', null)
 
-				const fields = body.filter(isField)
-				const files = body.filter(isFile)
+		// The uploaded files are removed once the response is sent (or the request aborted), unless kept
+		const uploads = this.uploads
+		this.instance.decorateRequest('keepFiles', function (this: FastifyRequest, ...fields: string[]) {
+			for (let upload of uploads.get(this) ?? []) {
+				if (fields.length === 0 || fields.includes(upload.fieldname)) upload.keep = true
+			}
+		})
 
-				req.body = {}
+		const removeUploads = async (req: FastifyRequest) => {
+			for (let { file, storage, keep } of this.uploads.get(req) ?? []) {
+				if (keep) continue
 
-				for (let field of fields) {
-					req.body[field.fieldname] = field.value
+				try {
+					await storage.remove?.(file)
+				} catch (ex: any) {
+					Logger.error('server', ex, { filename: file.filename })
 				}
+			}
 
-				for (let file of files) {
-					req.body[file.fieldname] = {
-						path: file.filepath,
-						filename: file.filename,
-						size: file.file.bytesRead,
-						mimetype: file.mimetype,
-					}
-				}
+			this.uploads.delete(req)
+		}
+		this.instance.addHook('onResponse', removeUploads)
+		this.instance.addHook('onRequestAbort', removeUploads)
+
+		// Request-scoped context (request id, route...) included in all the logs of the request
+		const requestIdHeader = this.instance.initialConfig.requestIdHeader
+		this.instance.addHook('onRequest', (req, reply, done) => {
+			req.ctx = {}
+			if (requestIdHeader) reply.header(requestIdHeader, req.id)
+
+			const fields = {
+				requestId: req.id,
+				route: `${req.method} ${req.routeOptions.config.url ?? pathOf(req.url) ?? req.url}`,
+			}
+
+			this.contexts.set(req, fields)
+			Context.run(fields, done)
+		})
+		// The body parsing (stream events) loses the asynchronous context, it is restored before the validation
+		this.instance.addHook('preValidation', (req, _, done) => {
+			Context.run(this.contexts.get(req) ?? {}, done)
+		})
+
+		// Request parsing for all incoming requests
+		this.instance.addHook('preValidation', async (req: ServerRequest) => {
+			// In watch mode, the schema can be hot reloaded
+			const { method, url, config, schema } = req.routeOptions
+			const entry = this.options.watch ? this.entryOf(method, url) : undefined
+			const body = (entry?.route.schema as Schema | undefined)?.body ?? (schema?.body as ZodTypeAny | undefined)
+
+			if (req.isMultipart()) {
+				req.body = await this.parseMultipart(req, body)
 			} else {
 				req.params ??= {}
 				req.query ??= {}
-				req.body = parseDatesInObject(req.body ?? {})
+				req.body ??= {}
+			}
+
+			req.body = await parseDates(req.body, body, config.dates?.parse ?? this.options.dates?.parse)
+		})
+
+		// The server isn't ready anymore once it starts closing
+		this.instance.addHook('preClose', async () => {
+			this.status = 'stopping'
+		})
+		// The connections of the in-flight requests are closed with their response, so that they don't delay the shutdown
+		this.instance.addHook('onSend', async (_, reply) => {
+			if (this.status === 'stopping') reply.header('Connection', 'close')
+		})
+		this.instance.addHook('onClose', async () => this.cache.close())
+
+		// HTTP caching of the routes enabling it, the responses are already serialized (JSON, formats) at this point
+		this.instance.addHook('onSend', async (req, reply, payload) => {
+			return req.routeOptions.config.cache ? this.cacheResponse(req, reply, payload) : payload
+		})
+
+		// Response schema validation (asynchronous, for the refinements querying a database) and envelope of the
+		// responses, wrapped with the status they are sent with (the range & default schemas cover several ones)
+		this.instance.addHook('preSerialization', async (req, reply, payload: any) => {
+			const status = reply.statusCode
+			const { method, url, config } = req.routeOptions
+			const entry = this.entryOf(method, url)
+
+			// In watch mode, the schema can be hot reloaded (the errors aren't validated)
+			const schema = responseSchemaOf((entry?.route.schema as Schema | undefined)?.response, status)
+			if (schema && payload?.success !== false) {
+				const result = await schema.safeParseAsync(payload)
+				if (!result.success) throw new ResponseError(req.method, entry!.url, result.error.issues)
+				payload = result.data
 			}
+
+			if (typeof payload?.success !== 'boolean') return payload
+
+			// The negotiated formats (e.g. CSV) are encoded from the unwrapped payload, by their serializer
+			if (this.formats.has(req)) return payload
+
+			const { contentType, errorContentType = contentType } = this.envelope
+			const type = payload.success ? contentType : errorContentType
+			if (type) reply.type(type)
+
+			// The routes without a response schema aren't serialized by the compiled serializers
+			const dates = config.dates?.serialize ?? this.options.dates?.serialize
+			if (dates === 'epoch') reply.serializer((data) => stringifyJSON(data, dates))
+
+			return wrapPayload(this.envelope, payload, status, entry?.type)
 		})
 
 		// Response parsing for all outcoming responses
@@ -186,16 +438,18 @@ export class Server {
 				query: req.query,
 			}
 
-			if (reply.error) {
-				Logger.crit('http', reply.error, data)
-			} else {
-				Logger.log(
-					data.status >= 500 ? 'error' : 'info',
-					'http',
-					`${data.method} ${data.path} ${data.ip} ${data.status} (${data.rs}ms)`,
-					data
-				)
-			}
+			Context.run(this.contexts.get(req) ?? {}, () => {
+				if (reply.error) {
+					Logger.crit('http', reply.error, data)
+				} else {
+					Logger.log(
+						data.status >= 500 ? 'error' : 'info',
+						'http',
+						`${data.method} ${data.path} ${data.ip} ${data.status} (${data.rs}ms)`,
+						data
+					)
+				}
+			})
 		})
 	}
 
@@ -208,16 +462,37 @@ export class Server {
 			} as PluginsOptions['static']
 
 			await this.instance.register((await import('@fastify/static')).default, newOpts)
+		} else if (plugin === 'openapi') {
+			this.openapiOptions = opts as PluginsOptions['openapi']
+
+			const docsPath = this.openapiOptions?.path ?? '/docs'
+			const specPath = `${docsPath.replace(/\/+$/, '')}/openapi.json`
+
+			this.instance.get(specPath, async () => this.openapi())
+			this.instance.get(docsPath, async (_, reply) =>
+				replyWrapper(reply).html(renderDocsPage(this.openapi(), specPath))
+			)
+		} else if (plugin === 'health') {
+			const healthPath = ((opts as PluginsOptions['health'])?.path ?? '/health').replace(/\/+$/, '')
+
+			this.instance.get(`${healthPath}/live`, async (_, reply) => replyWrapper(reply).success(200, { status: 'alive' }))
+			this.instance.get(`${healthPath}/ready`, async (_, reply) => {
+				const checks = await this.runChecks()
+				const ready = this.status === 'ready' && Object.values(checks).every((check) => check === 'ok')
+
+				if (!ready) return replyNotReady(reply, { status: this.status, checks }, this.options.errors)
+				return replyWrapper(reply).success(200, { status: this.status, checks })
+			})
 		} else {
 			await this.instance.register((await import(`@fastify/${plugin}`)).default, opts)
 		}
 	}
 
-	use(middleware: Middleware) {
-		this.instance.addHook('preValidation', (req, reply) => middleware(req, replyWrapper(reply)))
+	use(middleware: Middleware<any, any>) {
+		this.instance.addHook('preValidation', (req, reply) => runMiddlewares([middleware], req, reply))
 	}
 
-	on(event: 'ready' | 'error', action: (...args: any[]) => Promise<void> | void) {
+	on(event: 'ready' | 'error' | 'close', action: (...args: any[]) => Promise<void> | void) {
 		switch (event) {
 			case 'ready':
 				this.instance.addHook('onReady', action)
@@ -225,78 +500,147 @@ export class Server {
 			case 'error':
 				this.instance.addHook('onError', action)
 				break
+			case 'close':
+				this.instance.addHook('onClose', async () => action())
+				break
 		}
 	}
 
-	async start(options?: FastifyListenOptions) {
-		Logger.debug('server', 'Server starting...')
+	/**
+	 * Registers a handler for a class of errors (and its subclasses) thrown during the requests, e.g. to map a database
+	 * unique violation to a `409 conflict`. The handlers are tried in their registration order.
+	 *
+	 * @param ErrorClass - The class of the errors to handle.
+	 * @param handler - The handler, returning an `HttpError` to reply with, or replying by itself.
+	 */
+	catch<E extends Error>(ErrorClass: new (...args: any[]) => E, handler: ErrorHandler<E>) {
+		this.errorHandlers.push([ErrorClass, handler])
+	}
 
-		this.instance.after(async () => {
-			const files = await glob('./dist/resources/*/*.{controller,route,schema,service}.js')
+	/**
+	 * Registers a serializer for a format the routes can respond with (`config.formats`), CSV is built in.
+	 *
+	 * @param mediaType - The media type of the format (e.g. `application/msgpack`).
+	 * @param serializer - The serializer, encoding the validated data of the responses.
+	 */
+	format(mediaType: string, serializer: Serializer) {
+		this.serializers.set(mediaType.toLowerCase(), serializer)
+	}
 
-			const resources = files.reduce<Record<string, Record<string, string>>>((resources, file) => {
-				const [_, name, type] = file.match(/resources\/(\w+)\/\w+\.(controller|route|schema|service)\.js$/i) ?? []
-				if (!name || !type) return resources
+	/**
+	 * Registers a readiness check, the readiness route (`enable('health')`) fails while any check fails.
+	 *
+	 * @param name - The name of the check (e.g. `database`).
+	 * @param check - The check, failing when it returns `false` or throws.
+	 */
+	check(name: string, check: HealthCheck) {
+		this.checks.set(name, check)
+	}
 
-				return { ...resources, [name]: { ...resources[name], [type]: file } }
-			}, {})
+	/**
+	 * Generates the OpenAPI 3.1 document of all the routes loaded by the server.
+	 *
+	 * @param options - The OpenAPI options, default to the ones given to `enable('openapi')`.
+	 * @returns The OpenAPI document.
+	 */
+	openapi(options?: OpenAPIOptions) {
+		return generateOpenAPI(this.registry, options ?? this.openapiOptions, this.envelope)
+	}
 
-			for (let resourceName in resources) {
-				const resource = resources[resourceName]
-				if (!resource.route) continue
+	/**
+	 * Lists the routes loaded by the server.
+	 *
+	 * @returns The method, full path, middlewares and declared response statuses of each route.
+	 */
+	listRoutes(): RouteInfo[] {
+		return this.registry.map(({ resource, name, method, url, route }) => ({
+			method,
+			url,
+			resource,
+			name,
+			middlewares: (route.middlewares ?? []).map((middleware) => middleware.name || 'anonymous'),
+			statuses: route.method === 'WS' ? ['101'] : Object.keys(route.schema?.response ?? {}),
+		}))
+	}
 
-				try {
-					const expt = await import(path.resolve(resource.route))
-					const router = expt[Object.keys(expt)[0]]
-
-					const { PREFIX = '', ...routes } = router ?? {}
-
-					for (let routeName in routes) {
-						try {
-							const { path, middlewares, controller, ...props } = routes[routeName] as Route
-
-							this.instance.route({
-								url: `${PREFIX}${path.replace(/\/+$/, '')}`,
-								...props,
-								preParsing: (req, _, payload, done) => {
-									if (req.routeOptions.config.rawBody === true) {
-										const chunks: Buffer[] = []
-
-										payload.on('data', (chunk) => {
-											if (payload.readableEncoding) chunks.push(Buffer.from(chunk, payload.readableEncoding))
-											else chunks.push(chunk)
-										})
-
-										payload.on('end', () => {
-											req.rawBody = Buffer.concat(chunks)
-											req.encoding = payload.readableEncoding ?? undefined
-										})
-									}
-
-									done(null, payload)
-								},
-								...(middlewares
-									? {
-											preValidation: async (req, reply) => {
-												for (let middleware of middlewares) {
-													await middleware(req, replyWrapper(reply))
-												}
-											},
-									  }
-									: {}),
-								handler: (req, reply) => controller(req, replyWrapper(reply)),
-							})
-						} catch (_) {
-							Logger.warn('server', `${resourceName}.${routeName} fails to load`)
-						}
-					}
-				} catch (_) {
-					Logger.warn('server', `${resourceName} fails to load`)
-				}
-			}
-		})
+	/**
+	 * Prints the table of the routes loaded by the server.
+	 *
+	 * @returns The printed table.
+	 */
+	printRoutes() {
+		const rows = [
+			['METHOD', 'PATH', 'ROUTE', 'MIDDLEWARES', 'RESPONSES'],
+			...this.listRoutes().map((route) => [
+				route.method,
+				route.url || '/',
+				`${route.resource}.${route.name}`,
+				route.middlewares.join(', ') || '-',
+				route.statuses.join(', ') || '-',
+			]),
+		]
 
-		await this.instance.ready()
+		const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)))
+		const table = rows
+			.map((row) =>
+				row
+					.map((cell, i) => cell.padEnd(widths[i]))
+					.join('  ')
+					.trimEnd()
+			)
+			.join('\n')
+
+		Logger.info('server', `Routes:\n${table}`)
+
+		return table
+	}
+
+	/**
+	 * Loads the resources (without listening) and writes the OpenAPI document into a JSON file.
+	 *
+	 * @param file - The path of the output file.
+	 * @param options - The OpenAPI options, default to the ones given to `enable('openapi')`.
+	 */
+	async exportOpenAPI(file: string, options?: OpenAPIOptions) {
+		await this.ready()
+		await writeFile(file, JSON.stringify(this.openapi(options), null, 2))
+	}
+
+	/**
+	 * Registers a router (`{ PREFIX, ...routes }`) explicitly, alongside (or instead of) the discovered ones.
+	 *
+	 * @param router - The router to register (e.g. `HelloRoute`).
+	 * @param name - The resource name of the router, default to its prefix (e.g. `hello`).
+	 */
+	register(router: object, name?: string) {
+		if (this.loading) throw new Error('Routers must be registered before the server is ready')
+
+		const { PREFIX = '' } = router as { PREFIX?: string }
+		this.registered.push({ name: name ?? (PREFIX.replace(/^\/+|\/+$/g, '') || 'root'), router, prefix: '' })
+	}
+
+	/**
+	 * Registers multiple routers explicitly, alongside (or instead of) the discovered ones.
+	 *
+	 * @param routers - The routers to register, as a list or indexed by resource name (e.g. `{ hello: HelloRoute }`).
+	 */
+	routes(routers: object[] | Record<string, object>) {
+		if (Array.isArray(routers)) routers.forEach((router) => this.register(router))
+		else Object.entries(routers).forEach(([name, router]) => this.register(router, name))
+	}
+
+	/**
+	 * Loads the routers and waits for the server to be ready, without listening. Only the first call loads the routers.
+	 */
+	ready() {
+		this.loading ??= this.load()
+		return this.loading
+	}
+
+	async start(options?: FastifyListenOptions) {
+		Logger.debug('server', 'Server starting...')
+
+		await this.ready()
 
 		const host = options?.host ?? process.env.HOST ?? 'localhost'
 		const port = parseInt(options?.port?.toString() ?? process.env.PORT ?? '8080')
@@ -307,6 +651,540 @@ export class Server {
 			port,
 		})
 
+		const { signals = ['SIGTERM', 'SIGINT'] } = this.options.shutdown ?? {}
+		for (let signal of signals || []) process.once(signal, this.onSignal)
+
 		Logger.debug('server', `Server listening at http://${host}:${port}`)
 	}
+
+	/**
+	 * Stops the server gracefully: stops accepting connections, waits for the in-flight requests (closing their
+	 * connections after the shutdown timeout) and runs the `close` hooks. Only the first call stops the server.
+	 */
+	stop() {
+		this.stopping ??= (async () => {
+			Logger.debug('server', 'Server stopping...')
+
+			const { signals = ['SIGTERM', 'SIGINT'], timeout = 10_000 } = this.options.shutdown ?? {}
+			for (let signal of signals || []) process.off(signal, this.onSignal)
+
+			const timer = setTimeout(() => {
+				Logger.warn('server', `In-flight requests still running after ${timeout}ms, closing their connections`)
+				this.instance.server.closeAllConnections()
+			}, timeout)
+
+			try {
+				await this.instance.close()
+			} finally {
+				clearTimeout(timer)
+			}
+
+			Logger.debug('server', 'Server stopped')
+		})()
+
+		return this.stopping
+	}
+
+	private onSignal = (signal: NodeJS.Signals) => {
+		Logger.info('server', `${signal} received, shutting down...`)
+
+		this.stop().then(
+			() => process.exit(0),
+			(ex) => {
+				Logger.crit('server', ex)
+				process.exit(1)
+			}
+		)
+	}
+
+	/**
+	 * Runs the readiness checks.
+	 *
+	 * @returns The status of each check, indexed by name.
+	 */
+	private async runChecks() {
+		const results: Record<string, 'ok' | 'failing'> = {}
+
+		await Promise.all(
+			[...this.checks].map(async ([name, check]) => {
+				try {
+					results[name] = (await check()) === false ? 'failing' : 'ok'
+				} catch (ex: any) {
+					results[name] = 'failing'
+					Logger.warn('health', `${name} check failed: ${ex?.message ?? ex}`)
+				}
+			})
+		)
+
+		return results
+	}
+
+	private async load() {
+		this.instance.after(async () => {
+			const resources = await this.discover()
+
+			for (let { name, router, prefix, type } of [...this.registered, ...resources]) {
+				this.mount(name, router, prefix, type)
+			}
+
+			if (this.options.watch && this.options.resources !== false) {
+				const { root = './dist/resources', extensions = ['js'] } = this.options.resources ?? {}
+				const watcher = watchResources(root, extensions, this.registry)
+
+				this.instance.addHook('onClose', async () => watcher.close())
+				Logger.debug('server', `Watching ${root} for changes...`)
+			}
+
+			if (this.options.strict && this.failures.length > 0) {
+				throw new AggregateError(this.failures, `${this.failures.length} resource(s) or route(s) failed to load`)
+			}
+		})
+
+		await this.instance.ready()
+		this.status = 'ready'
+	}
+
+	/**
+	 * Finds and imports the routers of all the resources in the `resources` directory.
+	 *
+	 * @returns The routers with their resource name and their folder-based prefix.
+	 */
+	private async discover() {
+		if (this.options.resources === false) return []
+
+		const {
+			root = './dist/resources',
+			extensions = ['js'],
+			nested = false,
+			prefix = false,
+		} = this.options.resources ?? {}
+
+		const ext = extensions.length > 1 ? `{${extensions.join(',')}}` : extensions[0]
+		const files = await glob(`${nested ? '**' : '*'}/*.route.${ext}`, { cwd: root, posix: true, ignore: '**/*.d.ts' })
+
+		const resources: LoadableRouter[] = []
+
+		for (let file of files.sort()) {
+			const dir = path.posix.dirname(file)
+			if (dir === '.') continue
+
+			let resourcePrefix = ''
+			if (typeof prefix === 'function') resourcePrefix = prefix(dir)
+			else if (prefix && dir.includes('/')) resourcePrefix = `/${path.posix.dirname(dir)}`
+
+			try {
+				const expt = await import(path.resolve(root, file))
+				const routers = Object.entries<any>(expt).filter(([_, router]) => isRouter(router))
+
+				for (let [exportName, router] of routers) {
+					resources.push({
+						name: routers.length > 1 ? `${dir}/${exportName}` : dir,
+						router,
+						prefix: resourcePrefix,
+						type: path.posix.basename(dir),
+					})
+				}
+			} catch (ex: any) {
+				this.fail(new LoadError(dir, ex))
+			}
+		}
+
+		return resources
+	}
+
+	/**
+	 * Registers all the routes of a router (`{ PREFIX, TYPE, ...routes }`) on the Fastify instance.
+	 *
+	 * @param resourceName - The name of the resource the router belongs to.
+	 * @param router - The router to register.
+	 * @param prefix - A prefix prepended to the router one (e.g. `/v1`).
+	 * @param type - The type of the resources of the router when it doesn't set its `TYPE`, default to the last segment
+	 *               of its name (e.g. `users`).
+	 */
+	private mount(resourceName: string, router: object, prefix = '', type = path.posix.basename(resourceName)) {
+		const { PREFIX = '', TYPE = type, ...routes } = (router ?? {}) as Record<string, any>
+
+		for (let routeName in routes) {
+			const target = `${resourceName}.${routeName}`
+
+			try {
+				const route = routes[routeName] as Route | SocketRoute
+				if (!route || typeof route !== 'object' || typeof route.path !== 'string') {
+					throw new Error('not a route definition')
+				} else if (
+					route.method === 'WS' ? typeof route.handler !== 'function' : typeof route.controller !== 'function'
+				) {
+					throw new Error(`missing ${route.method === 'WS' ? 'handler' : 'controller'}`)
+				}
+
+				const url = urlOf(`${prefix}${PREFIX}`, route.path)
+
+				const duplicate = this.registry.find(
+					(e) => e.method === route.method && e.url.replace(/:\w+/g, ':') === url.replace(/:\w+/g, ':')
+				)
+				if (duplicate) {
+					throw new Error(
+						`${route.method} ${url} conflicts with ${duplicate.resource}.${duplicate.name} (${duplicate.url})`
+					)
+				}
+
+				const unknownFormat = route.config?.formats?.find((format) => !this.serializers.has(format))
+				if (unknownFormat) throw new Error(`no serializer for the ${unknownFormat} format`)
+
+				if (!route.schema) {
+					if (this.options.strict) this.fail(new LoadError(target, 'missing schema'))
+					else Logger.warn('server', `${target} has no schema, its requests & responses aren't validated`)
+				}
+
+				// The handlers read the route from the registry entry, so it can be hot reloaded in watch mode
+				const entry: RegisteredRoute = {
+					resource: resourceName,
+					type: TYPE,
+					name: routeName,
+					method: route.method,
+					url,
+					route,
+				}
+
+				if (route.method === 'WS') this.mountSocket(entry as RegisteredRoute & { route: SocketRoute })
+				else this.mountRoute(entry as RegisteredRoute & { route: Route })
+
+				this.registry.push(entry)
+				this.entries.set(`${entry.method} ${entry.url}`, entry)
+			} catch (ex: any) {
+				this.fail(new LoadError(target, ex))
+			}
+		}
+	}
+
+	/**
+	 * Returns the registry entry of a route.
+	 *
+	 * @param method - The method of the route.
+	 * @param url - The URL of the route.
+	 * @returns The registry entry, `undefined` if the route isn't registered (e.g. the plugin ones).
+	 */
+	private entryOf(method: string | string[] | undefined, url: string | undefined) {
+		return this.entries.get(`${method} ${url}`)
+	}
+
+	/**
+	 * Registers an HTTP route on the Fastify instance.
+	 *
+	 * @param entry - The registry entry of the route.
+	 */
+	private mountRoute(entry: RegisteredRoute & { route: Route }) {
+		const { path, middlewares, controller, ...props } = entry.route
+
+		this.instance.route({
+			url: entry.url,
+			...props,
+			preParsing: (req, _, payload, done) => {
+				if (req.routeOptions.config.rawBody === true) {
+					const chunks: Buffer[] = []
+
+					payload.on('data', (chunk) => {
+						if (payload.readableEncoding) chunks.push(Buffer.from(chunk, payload.readableEncoding))
+						else chunks.push(chunk)
+					})
+
+					payload.on('end', () => {
+						req.rawBody = Buffer.concat(chunks)
+						req.encoding = payload.readableEncoding ?? undefined
+					})
+				}
+
+				done(null, payload)
+			},
+			...(middlewares || this.options.watch
+				? {
+						preValidation: (req, reply) => runMiddlewares(entry.route.middlewares ?? [], req, reply),
+					}
+				: {}),
+			...(props.schema?.responseHeaders || this.options.watch
+				? {
+						onSend: async (req, reply, payload) => {
+							// Response headers validation, after the body one
+							const schema = entry.route.schema?.responseHeaders?.[reply.statusCode]
+							if (!schema) return payload
+
+							const result = await schema.safeParseAsync(reply.getHeaders())
+							if (!result.success) {
+								// The error response isn't sent with the invalid headers
+								for (let name in fieldsOf(schema)) reply.removeHeader(name)
+								throw new ResponseError(req.method, entry.url, result.error.issues)
+							}
+
+							reply.headers(result.data)
+							return payload
+						},
+					}
+				: {}),
+			...(props.config?.formats?.length
+				? {
+						preHandler: async (req, reply) => {
+							const formats = ['application/json', ...(entry.route.config?.formats ?? [])]
+							const format = negotiate(req.headers.accept, formats)
+
+							reply.header('Vary', 'Accept')
+							if (!format) return replyNotAcceptable(reply, formats, this.options.errors)
+							if (format === 'application/json') return
+
+							// Fastify sends the buffers as is, even though its typings only expect strings
+							this.formats.set(req, format)
+							reply.serializer((payload) => this.encode(entry, format, payload, reply) as string)
+						},
+					}
+				: {}),
+			handler: (req, reply) => this.replyCached(req, reply) ?? entry.route.controller(req, replyWrapper(reply)),
+		})
+	}
+
+	/**
+	 * Replies with the cached response of a request, for the routes enabling `config.cache.store`. The lookup happens
+	 * after the middlewares, so that the cached responses stay behind their authentication.
+	 *
+	 * @param req - The FastifyRequest object.
+	 * @param reply - The FastifyReply object.
+	 * @returns The reply, `undefined` if the response isn't cached.
+	 */
+	private replyCached(req: FastifyRequest, reply: FastifyReply) {
+		if (!req.routeOptions.config.cache?.store || (req.method !== 'GET' && req.method !== 'HEAD')) return
+
+		const cached = this.cache.get(this.cacheKeyOf(req))
+		if (!cached) {
+			reply.header('X-Cache', 'MISS')
+			return
+		}
+
+		return reply.headers({ ...cached.headers, 'X-Cache': 'HIT' }).send(cached.payload)
+	}
+
+	/**
+	 * Returns the server-side cache key of a request: its path, its query, its credentials and the headers the route
+	 * varies on. The credentials (`Authorization`, `Cookie`) are always part of it, so that a response built for a user
+	 * is never served to another one.
+	 *
+	 * @param req - The FastifyRequest object.
+	 * @returns The cache key.
+	 */
+	private cacheKeyOf(req: FastifyRequest) {
+		const names = new Set(['authorization', 'cookie', ...varyOf(req.routeOptions.config).map((n) => n.toLowerCase())])
+		const headers = [...names].map((name) => `${name}: ${req.headers[name] ?? ''}`)
+		return [req.url, ...headers].join('\n')
+	}
+
+	/**
+	 * Applies the HTTP caching of a route to a serialized response: `Cache-Control` & `Vary` headers, `ETag` (answering
+	 * `If-None-Match` with `304`) and storage in the server-side cache.
+	 *
+	 * @param req - The FastifyRequest object.
+	 * @param reply - The FastifyReply object.
+	 * @param payload - The serialized payload.
+	 * @returns The payload to send.
+	 */
+	private cacheResponse(req: FastifyRequest, reply: FastifyReply, payload: unknown) {
+		const { config } = req.routeOptions
+		const options = config.cache!
+
+		const vary = [reply.getHeader('vary')?.toString(), ...varyOf(config)].filter(Boolean)
+		if (vary.length > 0) reply.header('Vary', [...new Set(vary.join(', ').split(/\s*,\s*/))].join(', '))
+
+		if (reply.statusCode >= 400) return payload
+
+		const control = cacheControlOf(options)
+		if (control) reply.header('Cache-Control', control)
+
+		// Only the full successful responses are tagged & stored (not the streams, e.g. the files)
+		if (reply.statusCode !== 200 || (typeof payload !== 'string' && !Buffer.isBuffer(payload))) return payload
+
+		if (options.etag !== false && !reply.hasHeader('etag')) reply.header('ETag', entityTag(payload))
+
+		if (options.store && reply.getHeader('x-cache') === 'MISS' && !reply.hasHeader('set-cookie')) {
+			const { ttl = this.cache.ttl, tags = [] } = typeof options.store === 'object' ? options.store : {}
+			// The headers specific to the request aren't stored
+			const skipped = ['content-length', 'connection', 'x-cache', this.instance.initialConfig.requestIdHeader]
+			const headers = Object.entries(reply.getHeaders()).filter(([name]) => !skipped.includes(name))
+
+			// The payload is stored as a Buffer, which Fastify sends as is (the strings can go through a serializer)
+			this.cache.set(this.cacheKeyOf(req), {
+				payload: Buffer.isBuffer(payload) ? payload : Buffer.from(payload),
+				headers: Object.fromEntries(headers) as Record<string, string>,
+				targets: [pathOf(req.url) ?? req.url, ...(config.url ? [config.url] : []), ...tags],
+				expires: Date.now() + ttl,
+			})
+		}
+
+		if (!isFresh(reply, reply.getHeader('etag')?.toString())) return payload
+
+		reply.status(304)
+		reply.removeHeader('content-type')
+		return ''
+	}
+
+	/**
+	 * Encodes a response in a negotiated format, the payload is already validated against the route schema.
+	 * The errors (and the payloads not built by the reply helpers) are still sent in JSON.
+	 *
+	 * @param entry - The registry entry of the route.
+	 * @param format - The media type of the format.
+	 * @param payload - The response payload.
+	 * @param reply - The FastifyReply object.
+	 * @returns The encoded response.
+	 */
+	private encode(entry: RegisteredRoute & { route: Route }, format: string, payload: any, reply: FastifyReply) {
+		const status = reply.statusCode
+
+		if (payload?.success !== true) {
+			const { contentType, errorContentType = contentType } = this.envelope
+			reply.type((payload?.success === false && errorContentType) || 'application/json; charset=utf-8')
+			return stringifyJSON(
+				wrapPayload(this.envelope, payload, status, entry.type),
+				entry.route.config?.dates?.serialize ?? this.options.dates?.serialize
+			)
+		}
+
+		reply.type(format)
+		return this.serializers.get(format)!(payload.data, { status, resource: entry.resource })
+	}
+
+	/**
+	 * Parses a multipart body with the limits of the route, the files are checked against the `Is.file()` schema of
+	 * their field before being stored. The repeated fields are arrays, as well as the fields declared as arrays.
+	 *
+	 * @param req - The FastifyRequest object.
+	 * @param schema - The body schema of the route.
+	 * @returns The body, with the stored files.
+	 */
+	private async parseMultipart(req: FastifyRequest, schema: ZodTypeAny | undefined) {
+		const limits = { ...this.multipartLimits, ...req.routeOptions.config.multipartLimits }
+		const declared = !!schema && unwrapSchema(schema) instanceof ZodObject
+		const fields = fieldsOf(schema)
+		const body: Record<string, any> = {}
+
+		try {
+			for await (const part of req.parts({ limits })) {
+				const field = fields[part.fieldname] && unwrapSchema(fields[part.fieldname])
+				let value: any
+
+				if (isFile(part)) {
+					const file = field instanceof ZodArray ? unwrapSchema(field.element) : field
+
+					// The files of the undeclared fields are skipped, the rejected ones aren't stored
+					if (declared && (!file || kindOf(file) !== 'file')) {
+						part.file.resume()
+						continue
+					}
+					if (file && !acceptsFile(file, part.mimetype, part.filename)) {
+						part.file.resume()
+						throw new UploadError('unsupported_media_type', part.fieldname, { mimetype: part.mimetype })
+					}
+
+					await this.saveUpload(req, part)
+					value = part.upload
+				} else if (isField(part)) {
+					if (part.valueTruncated) {
+						throw new UploadError('payload_too_large', part.fieldname, { limit: limits.fieldSize })
+					}
+
+					value = part.value
+				}
+
+				const current = body[part.fieldname]
+				if (current !== undefined) body[part.fieldname] = [current, value].flat()
+				else body[part.fieldname] = field instanceof ZodArray ? [value] : value
+			}
+		} catch (ex: any) {
+			throw multipartLimitCodes.includes(ex.code) ? this.uploadErrorOf(ex, req) : ex
+		}
+
+		return body
+	}
+
+	/**
+	 * Converts a limit error of the multipart plugin into an UploadError, with the limit of the route.
+	 *
+	 * @param error - The error of the multipart plugin.
+	 * @param req - The FastifyRequest object.
+	 * @returns The UploadError.
+	 */
+	private uploadErrorOf(error: FastifyError & { part?: Multipart }, req: FastifyRequest) {
+		const limits = { ...this.multipartLimits, ...req.routeOptions.config.multipartLimits }
+
+		switch (error.code) {
+			case 'FST_REQ_FILE_TOO_LARGE':
+				return new UploadError('file_too_large', error.part?.fieldname, { limit: limits.fileSize })
+			case 'FST_FILES_LIMIT':
+				return new UploadError('payload_too_large', undefined, { files: limits.files })
+			case 'FST_FIELDS_LIMIT':
+				return new UploadError('payload_too_large', undefined, { fields: limits.fields })
+			default:
+				return new UploadError('payload_too_large', undefined, { parts: limits.parts })
+		}
+	}
+
+	/**
+	 * Stores an uploaded file with the storage of the route (or the server one), the stored file is attached to its part.
+	 * Rejects if the storage fails, the rest of the file being drained.
+	 *
+	 * @param req - The FastifyRequest object.
+	 * @param part - The file part of the multipart request.
+	 */
+	private async saveUpload(req: FastifyRequest, part: MultipartFile & { upload?: UploadedFile }) {
+		const storage = req.routeOptions.config.storage ?? this.storage
+		const { fieldname, filename, mimetype, encoding } = part
+
+		try {
+			const stored = await storage.save({ fieldname, filename, mimetype, encoding, stream: part.file })
+			part.upload = { ...stored, filename, mimetype, size: part.file.bytesRead }
+
+			if (!this.uploads.has(req)) this.uploads.set(req, [])
+			this.uploads.get(req)!.push({ fieldname, file: part.upload, storage })
+		} catch (ex: any) {
+			// The failure (e.g. an unavailable storage) is answered by the error handler with a 500
+			part.file.resume()
+			throw ex
+		}
+	}
+
+	/**
+	 * Registers a WebSocket route on the Fastify instance, the middlewares are applied to the upgrade request.
+	 *
+	 * @param entry - The registry entry of the route.
+	 */
+	private mountSocket(entry: RegisteredRoute & { route: SocketRoute }) {
+		const { schema, config, middlewares } = entry.route
+
+		this.instance.route({
+			method: 'GET',
+			url: entry.url,
+			// The undefined parts would be reported as missing by Fastify
+			schema: {
+				...(schema?.params ? { params: schema.params } : {}),
+				...(schema?.querystring ? { querystring: schema.querystring } : {}),
+			},
+			config,
+			...(middlewares || this.options.watch
+				? {
+						preValidation: (req, reply) => runMiddlewares(entry.route.middlewares ?? [], req, reply),
+					}
+				: {}),
+			handler: (_, reply) => replyUpgradeRequired(reply, this.options.errors),
+			wsHandler: (connection, req) =>
+				entry.route.handler(
+					socketWrapper(connection.socket, entry.route.schema, req, this.envelope, this.options.errors),
+					req as ServerRequest
+				),
+		})
+	}
+
+	/**
+	 * Logs a loading failure and keeps it to abort the startup in strict mode.
+	 *
+	 * @param error - The loading failure.
+	 */
+	private fail(error: LoadError) {
+		this.failures.push(error)
+		Logger.error('server', error)
+	}
 }
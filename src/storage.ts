@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto'
+import { createWriteStream } from 'fs'
+import { mkdir, unlink } from 'fs/promises'
+import { extensions, lookup } from 'mime-types'
+import { tmpdir } from 'os'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import { AnyZodObject, ZodTypeAny } from 'zod'
+
+import { StorageAdapter } from './types.js'
+
+/**
+ * Generates a random filename keeping the usual extension of the MIME type.
+ *
+ * @param mimetype - The MIME type of the file.
+ * @returns The filename.
+ */
+const randomFilename = (mimetype: string) => {
+	const exts = extensions[mimetype] || []
+
+	if (exts.length === 1) return `${randomUUID()}.${exts[0]}`
+	if (exts.length > 1) return `${randomUUID()}.${exts[0].length < exts[1].length ? exts[0] : exts[1]}`
+	return randomUUID()
+}
+
+/**
+ * Writes the uploaded files in a directory with a random name, the partially written files are removed.
+ *
+ * @param directory - The directory, created if missing.
+ * @returns The storage adapter.
+ */
+const directory = (directory: string): StorageAdapter => {
+	let created: Promise<unknown> | undefined
+
+	return {
+		save: async ({ stream, mimetype }) => {
+			await (created ??= mkdir(directory, { recursive: true }))
+
+			const filepath = path.join(directory, randomFilename(mimetype))
+
+			try {
+				await pipeline(stream, createWriteStream(filepath))
+			} catch (ex) {
+				await unlink(filepath).catch(() => {})
+				throw ex
+			}
+
+			return { path: filepath }
+		},
+
+		remove: async (file) => {
+			if (file.path) await unlink(file.path).catch(() => {})
+		},
+	}
+}
+
+/**
+ * Checks an uploaded file against the `Is.file()` schema of its field, before storing it: its MIME type and the one of
+ * its extension (if known) have to match the declared MIME type.
+ *
+ * @param schema - The file schema of the field.
+ * @param mimetype - The MIME type of the file, as sent by the client.
+ * @param filename - The name of the file.
+ * @returns Whether the file is accepted.
+ */
+export const acceptsFile = (schema: ZodTypeAny, mimetype: string, filename: string) => {
+	const declared: ZodTypeAny | undefined = (schema as AnyZodObject).shape?.mimetype
+	if (!declared) return true
+
+	const extension = lookup(filename)
+	return declared.safeParse(mimetype).success && (!extension || declared.safeParse(extension).success)
+}
+
+export const Storage = {
+	/** Writes the uploaded files in the temporary directory of the OS (default) */
+	temp: () => directory(tmpdir()),
+
+	/** Writes the uploaded files in a configured directory */
+	directory,
+
+	/** Keeps the uploaded files in memory, as `buffer` (`Is.storedFile()`), the size limits should be kept low */
+	memory: (): StorageAdapter => ({
+		save: async ({ stream }) => {
+			const chunks: Buffer[] = []
+			for await (const chunk of stream) chunks.push(chunk)
+
+			return { buffer: Buffer.concat(chunks) }
+		},
+	}),
+}
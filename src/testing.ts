@@ -0,0 +1,212 @@
+import { AssertionError, deepStrictEqual } from 'assert'
+import { randomUUID } from 'crypto'
+import { InjectOptions, LightMyRequestResponse } from 'fastify'
+import { z } from 'zod'
+
+import { parseDates } from './dates.js'
+import { envelopeOf } from './envelope.js'
+import { Server } from './server.js'
+import { DateParsing, Envelope, InjectResponse, Issue, Route, ServerOptions, TestServer } from './types.js'
+import { interpolate, responseSchemaOf, urlOf } from './utils.js'
+
+/**
+ * Converts a query value into a string (or an array of strings) understandable by the injection.
+ *
+ * @param value - The query value.
+ * @returns The stringified value.
+ */
+const stringify = (value: any): string | string[] => {
+	if (Array.isArray(value)) return value.map((item) => stringify(item) as string)
+	if (value instanceof Date) return value.toISOString()
+	return String(value)
+}
+
+/**
+ * Builds a `multipart/form-data` payload from fields & files, the arrays are sent as repeated fields.
+ *
+ * @param fields - The text fields.
+ * @param files - The files.
+ * @returns The payload and its boundary.
+ */
+const buildMultipart = (fields: Record<string, any> = {}, files: Record<string, any> = {}) => {
+	const boundary = `----typerestjs${randomUUID().replace(/-/g, '')}`
+	const chunks: Buffer[] = []
+
+	for (let [name, value] of Object.entries(fields)) {
+		for (let item of [value].flat()) {
+			if (item === undefined) continue
+
+			chunks.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n`))
+			chunks.push(Buffer.from(`${stringify(item)}\r\n`))
+		}
+	}
+
+	for (let [name, file] of Object.entries(files).flatMap(([name, file]) => [file].flat().map((item) => [name, item]))) {
+		if (!file) continue
+
+		chunks.push(
+			Buffer.from(
+				`--${boundary}\r\nContent-Disposition: form-data; name="${name}"; filename="${file.filename}"\r\n` +
+					`Content-Type: ${file.mimetype ?? 'application/octet-stream'}\r\n\r\n`
+			)
+		)
+		chunks.push(typeof file.content === 'string' ? Buffer.from(file.content) : file.content)
+		chunks.push(Buffer.from('\r\n'))
+	}
+
+	chunks.push(Buffer.from(`--${boundary}--\r\n`))
+
+	return { payload: Buffer.concat(chunks), boundary }
+}
+
+// The body of the bad request responses, once unwrapped from the envelope
+const badRequestSchema = z.object({
+	success: z.literal(false),
+	error: z.object({ type: z.string(), details: z.array(z.custom<Issue>()).optional() }),
+})
+
+/**
+ * Parses an injection response into a typed response.
+ *
+ * @param res - The injection response.
+ * @param route - The injected route, its response schemas drive the date parsing.
+ * @param envelope - The envelope of the server, the body is unwrapped from it.
+ * @param dates - The date parsing policy of the server.
+ * @returns The status, the headers and the parsed body of the response.
+ */
+const parseResponse = async (
+	res: LightMyRequestResponse,
+	route: Route<any, any>,
+	envelope: Envelope,
+	dates?: DateParsing
+): Promise<InjectResponse<any>> => {
+	const isJSON = res.headers['content-type']?.toString().includes('json')
+	const schema = responseSchemaOf(route.schema?.response, res.statusCode)
+
+	return {
+		status: res.statusCode,
+		headers: res.headers as InjectResponse<any>['headers'],
+		body:
+			isJSON && res.body
+				? await parseDates(envelope.parse(res.json(), res.statusCode, schema), schema, dates)
+				: res.body,
+	}
+}
+
+/**
+ * Creates a server for the tests: the given routers are loaded but the server doesn't listen,
+ * requests are injected in-process with typed helpers.
+ *
+ * @param routers - The route namespaces to load, indexed by resource name (e.g. `{ hello: HelloRoute }`).
+ * @param options - The server options and an optional `setup` function called before loading the routers
+ *                  (to enable plugins, add global middlewares, ...).
+ * @returns The test server.
+ */
+export const createTestServer = async (
+	routers: Record<string, object>,
+	options?: ServerOptions & { setup?: (server: Server) => Promise<void> | void }
+): Promise<TestServer> => {
+	const { setup, ...serverOptions } = options ?? {}
+
+	const server = new Server({ resources: false, ...serverOptions })
+	const envelope = envelopeOf(serverOptions.envelope)
+	await setup?.(server)
+	server.routes(routers)
+	await server.ready()
+
+	const urls = new WeakMap<object, string>()
+	for (let name in routers) {
+		const { PREFIX = '', ...routes } = routers[name] as Record<string, any>
+
+		for (let routeName in routes) {
+			const route = routes[routeName]
+			if (route && typeof route === 'object' && typeof route.path === 'string')
+				urls.set(route, urlOf(PREFIX, route.path))
+		}
+	}
+
+	const request = async (route: Route<any, any>, input: Record<string, any>, payload?: Omit<InjectOptions, 'url'>) => {
+		const url = urls.get(route)
+		if (url === undefined) throw new Error(`Route ${route.method} ${route.path} isn't loaded by the test server`)
+
+		// Objects use the bracket syntax (`?filter[status]=open`)
+		const query: Record<string, string | string[]> = {}
+		const append = (key: string, value: any) => {
+			if (value === undefined) return
+			else if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+				for (let subkey in value) append(`${key}[${subkey}]`, value[subkey])
+			} else query[key] = stringify(value)
+		}
+
+		for (let key in input.query ?? {}) append(key, input.query[key])
+
+		const res = await server.instance.inject({
+			method: route.method,
+			url: interpolate(url, input.params),
+			query,
+			...payload,
+			headers: { ...payload?.headers, ...input.headers },
+		})
+
+		return parseResponse(res, route, envelope, route.config?.dates?.parse ?? serverOptions.dates?.parse)
+	}
+
+	return {
+		server,
+
+		inject: (route, ...[input = {}]) => {
+			const { body } = input as Record<string, any>
+			return request(route, input, body === undefined ? {} : { payload: body })
+		},
+
+		upload: (route, input) => {
+			const { payload, boundary } = buildMultipart(input.fields, input.files)
+
+			return request(route, input, {
+				payload,
+				headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+			})
+		},
+
+		expectIssues: (response, expected) => {
+			const type = serverOptions.errors?.responses?.bad_request?.type ?? 'bad_request'
+			const result = badRequestSchema.safeParse(response.body)
+
+			if (response.status !== 400 || !result.success || result.data.error.type !== type) {
+				throw new AssertionError({
+					message: `Expected a bad request response, received ${response.status}`,
+					actual: response.body,
+					expected: { success: false, error: { type } },
+				})
+			}
+
+			const issues = result.data.error.details ?? []
+
+			for (let issue of expected) {
+				const found = issues.some((actual) => {
+					try {
+						deepStrictEqual(
+							Object.fromEntries(Object.keys(issue).map((key) => [key, actual[key as keyof Issue]])),
+							issue
+						)
+						return true
+					} catch (_) {
+						return false
+					}
+				})
+
+				if (!found) {
+					throw new AssertionError({
+						message: 'Expected issue not found in the response',
+						actual: issues,
+						expected: issue,
+					})
+				}
+			}
+
+			return issues
+		},
+
+		close: () => server.stop(),
+	}
+}
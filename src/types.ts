@@ -1,21 +1,47 @@
-import type { FastifyCookieOptions } from '@fastify/cookie'
+import type { CookieSerializeOptions, FastifyCookieOptions } from '@fastify/cookie'
 import type { FastifyCorsOptions } from '@fastify/cors'
 import type { FastifyMultipartBaseOptions } from '@fastify/multipart'
 import type { RateLimitOptions, RateLimitPluginOptions } from '@fastify/rate-limit'
 import type { FastifyStaticOptions } from '@fastify/static'
-import type { FastifyContextConfig, FastifyReply, FastifyRequest, FastifyTypeProvider } from 'fastify'
-import type { ZodType, ZodTypeAny, input, output, z } from 'zod'
+import type { WebsocketPluginOptions } from '@fastify/websocket'
+import type {
+	FastifyBaseLogger,
+	FastifyContextConfig,
+	FastifyReply,
+	FastifyRequest,
+	FastifyServerOptions,
+	FastifyTypeProvider,
+} from 'fastify'
+import type { Server as HTTPServer } from 'http'
+import type { Readable } from 'stream'
+import type { WebSocket } from 'ws'
+import type { AnyZodObject, ZodType, ZodTypeAny, input, output, z } from 'zod'
+
+import type { HttpError, Server } from './server.js'
+import type { exportIssues } from './utils.js'
 
 declare module 'fastify' {
 	interface FastifyContextConfig extends Record<string, any> {
 		rateLimit?: RateLimitOptions | false
 		multipartLimits?: FastifyMultipartBaseOptions['limits']
 		rawBody?: boolean
+		openapi?: OpenAPIRouteOptions | false
+		/** The media types the route can respond with besides `application/json` (e.g. `['text/csv']`) */
+		formats?: string[]
+		/** Overrides the date policy of the server for the route */
+		dates?: DatesOptions
+		/** Overrides the storage of the uploaded files for the route */
+		storage?: StorageAdapter
+		/** The HTTP caching of the route responses (`Cache-Control`, `ETag`) and their optional server-side cache */
+		cache?: CacheOptions
 	}
 
 	interface FastifyRequest {
+		ctx: Record<string, any>
 		rawBody?: Buffer
 		encoding?: BufferEncoding
+		/** Keeps the uploaded files of the given fields (all if none) instead of removing them after the response */
+		keepFiles: (...fields: string[]) => void
 	}
 
 	interface FastifyReply {
@@ -23,11 +49,247 @@ declare module 'fastify' {
 	}
 }
 
+export type ServerOptions = FastifyServerOptions<HTTPServer, FastifyBaseLogger> & {
+	multipartLimits?: FastifyMultipartBaseOptions['limits']
+	websocket?: WebsocketPluginOptions['options']
+	resources?: ResourcesOptions | false
+	/** Watches the resources directory and hot reloads the changed modules, for development only */
+	watch?: boolean
+	/** Aborts the startup if any resource or route fails to load (or has no schema), default to `false` */
+	strict?: boolean
+	shutdown?: ShutdownOptions
+	errors?: ErrorsOptions
+	/** The format of the responses, a built-in one or a custom one, default to `default` (`{ success, data }`) */
+	envelope?: EnvelopeName | Envelope
+	/** How the dates of the request bodies are parsed and the dates of the responses serialized, can be set per route */
+	dates?: DatesOptions
+	/** The storage of the uploaded files, default to `Storage.temp()` */
+	storage?: StorageAdapter
+	/** The in-memory cache of the responses, used by the routes enabling `config.cache.store` */
+	cache?: ResponseCacheOptions
+}
+
+export interface ResponseCacheOptions {
+	/** The maximum number of cached responses, the least recently used ones are evicted first, default to `1000` */
+	max?: number
+	/** The default time to live of the cached responses in milliseconds, default to `60000` */
+	ttl?: number
+}
+
+export interface CacheOptions {
+	/** The `max-age` directive of `Cache-Control`, in seconds */
+	maxAge?: number
+	/** The `s-maxage` directive of `Cache-Control` (shared caches: CDNs, proxies...), in seconds */
+	sMaxAge?: number
+	/** The `stale-while-revalidate` directive of `Cache-Control`, in seconds */
+	staleWhileRevalidate?: number
+	/** Whether the responses are specific to a user (`private`) or can be stored by the shared caches (`public`) */
+	private?: boolean
+	/** Whether the clients have to revalidate the responses before using them (`no-cache`) */
+	noCache?: boolean
+	/** The request headers the responses depend on, sent in `Vary` and part of the server-side cache key */
+	vary?: string[]
+	/** Whether the JSON responses get an `ETag` (`If-None-Match` is answered with `304`), default to `true` */
+	etag?: boolean
+	/**
+	 * Whether the successful responses of the GET route are cached in memory (keyed on the path, the query, the
+	 * `Authorization` & `Cookie` headers and the `vary` ones), with a specific time to live (milliseconds) and tags to
+	 * invalidate them with `Cache.invalidate(tag)`
+	 */
+	store?: boolean | { ttl?: number; tags?: string[] }
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'critical'
+
+export interface LoggerOptions {
+	/** The minimum level of the logs, default to the one of `LOG_LEVEL` (e.g. `info` or `info,http=warn`) or `debug` */
+	level?: LogLevel
+	/** The minimum level of specific tags (e.g. `{ http: 'warn' }`), merged with the ones of `LOG_LEVEL` */
+	tags?: Record<string, LogLevel>
+	/**
+	 * The metadata keys (at any depth, case insensitive) or dotted paths (e.g. `query.token`) whose values are replaced
+	 * by `[REDACTED]`, replaces the default keys (`authorization`, `cookie`, `password`, `secret`, `token`...)
+	 */
+	redact?: string[]
+	/** The rate (from `0` to `1`) of the `debug` & `info` logs kept for specific tags (e.g. `{ http: 0.1 }`) */
+	sampling?: Record<string, number>
+}
+
+/**
+ * `schema` converts the fields declared with `Is.date()` (from ISO 8601 strings or epoch milliseconds),
+ * `heuristic` converts every ISO 8601 date-time string and `off` leaves the values as is
+ */
+export type DateParsing = 'off' | 'schema' | 'heuristic'
+
+/** `iso` writes the dates as ISO 8601 strings, `epoch` as milliseconds since the epoch */
+export type DateSerialization = 'iso' | 'epoch'
+
+export interface DatesOptions {
+	/** Default to `schema` */
+	parse?: DateParsing
+	/** Default to `iso` */
+	serialize?: DateSerialization
+}
+
+/** An uploaded file being received, passed to the storage adapter */
+export interface Upload {
+	fieldname: string
+	filename: string
+	mimetype: string
+	encoding: string
+	stream: Readable
+}
+
+/** The location of an uploaded file, as returned by the storage adapter */
+export interface StoredFile {
+	/** The path of the file on the disk */
+	path?: string
+	/** The content of the file, when kept in memory */
+	buffer?: Buffer
+	/** The identifier of the file in a custom storage (e.g. an object key) */
+	key?: string
+}
+
+export interface UploadedFile extends StoredFile {
+	filename: string
+	size: number
+	mimetype: string
+}
+
+export interface StorageAdapter {
+	/** Stores an uploaded file, its stream has to be consumed */
+	save: (upload: Upload) => Promise<StoredFile>
+	/** Removes a stored file once the response is sent, unless kept by the controller (`req.keepFiles()`) */
+	remove?: (file: UploadedFile) => Promise<void>
+}
+
+export type EnvelopeName = 'default' | 'bare' | 'jsonapi' | 'problem'
+
+export interface EnvelopeError {
+	status: number
+	type: string
+	message?: string
+	details?: any[]
+}
+
+/**
+ * A format of the responses, wrapping the data & errors given to the reply helpers (and described by the
+ * `Is.success` & `Is.error` schemas).
+ */
+export interface Envelope {
+	/** The content type of the responses, default to `application/json` */
+	contentType?: string
+	/** The content type of the error responses, default to `contentType` */
+	errorContentType?: string
+	/** Wraps the data of a success response */
+	success: (data: any, context: { status: number; resource?: string }) => any
+	/** Wraps an error */
+	error: (error: EnvelopeError) => any
+	/**
+	 * Unwraps a response body into `{ success: true, data }` or `{ success: false, error }` (used by the clients), the
+	 * response schema of the status (if any) restores the values the envelope changed
+	 */
+	parse: (
+		body: any,
+		status: number,
+		schema?: ZodTypeAny
+	) => { success: true; data: any } | { success: false; error: Omit<EnvelopeError, 'status'> }
+	/** The schemas of the wrapped responses (used by the OpenAPI document) */
+	schemas: {
+		success: (data: ZodTypeAny) => ZodTypeAny
+		error: (types: [string, ...string[]]) => ZodTypeAny
+	}
+}
+
+export type BuiltinErrorType =
+	| 'bad_request'
+	| 'bad_response'
+	| 'file_too_large'
+	| 'unknown_error'
+	| 'not_ready'
+	| 'upgrade_required'
+	| 'not_acceptable'
+	| 'payload_too_large'
+	| 'unsupported_media_type'
+
+export type UploadErrorKind = 'file_too_large' | 'payload_too_large' | 'unsupported_media_type'
+
+export interface ErrorsOptions {
+	/** Overrides the type and/or the message of the built-in error responses (e.g. `{ bad_request: { message } }`) */
+	responses?: { [K in BuiltinErrorType]?: { type?: string; message?: string } }
+	/** Whether the `details` of the errors are exposed in the responses, default to `true` */
+	details?: boolean
+	/** Called with every error handled by the server before its response is sent (e.g. to report it to an error tracker) */
+	report?: (error: Error, req: ServerRequest) => Promise<void> | void
+}
+
+/**
+ * A handler of a class of errors, it can either map the error to an `HttpError`, reply by itself, or return nothing
+ * to let the default error handling proceed.
+ */
+export type ErrorHandler<E extends Error = Error> = (
+	error: E,
+	req: ServerRequest,
+	reply: ServerReply
+) => Promise<HttpError | FastifyReply | void> | HttpError | FastifyReply | void
+
+export interface ShutdownOptions {
+	/** The signals triggering a graceful shutdown once the server is started, default to `['SIGTERM', 'SIGINT']` */
+	signals?: NodeJS.Signals[] | false
+	/** The delay in milliseconds given to the in-flight requests before closing their connections, default to `10000` */
+	timeout?: number
+}
+
+export interface ResourcesOptions {
+	/** The directory containing the resources, default to `./dist/resources` */
+	root?: string
+	/** The extensions of the route files, default to `['js']` (e.g. `['ts']` when running with a TypeScript loader) */
+	extensions?: string[]
+	/** Whether the resources can be nested in sub-folders (e.g. `resources/admin/users`), default to `false` */
+	nested?: boolean
+	/**
+	 * Whether the parent folders of a nested resource are prepended to its routes (e.g. `resources/v1/users` → `/v1`),
+	 * or a function returning the prefix from the resource directory (relative to the root), default to `false`
+	 */
+	prefix?: boolean | ((dir: string) => string)
+}
+
 export type PluginsOptions = {
 	cors: FastifyCorsOptions
 	cookie: FastifyCookieOptions
 	'rate-limit': RateLimitPluginOptions
 	static: FastifyStaticOptions
+	openapi: OpenAPIOptions
+	health: HealthOptions
+}
+
+export interface HealthOptions {
+	/** The base path of the liveness (`/live`) & readiness (`/ready`) routes, default to `/health` */
+	path?: `/${string}`
+}
+
+/** A readiness check, the server isn't ready if it returns `false` or throws */
+export type HealthCheck = () => Promise<boolean | void> | boolean | void
+
+export interface OpenAPIOptions {
+	path?: `/${string}`
+	info?: {
+		title: string
+		version: string
+		description?: string
+	}
+	servers?: {
+		url: string
+		description?: string
+	}[]
+}
+
+export interface OpenAPIRouteOptions {
+	operationId?: string
+	summary?: string
+	description?: string
+	tags?: string[]
+	deprecated?: boolean
 }
 
 export interface ZodTypeProvider extends FastifyTypeProvider {
@@ -39,6 +301,10 @@ export interface Schema {
 	body?: ZodTypeAny
 	params?: ZodTypeAny
 	response: { [key in number | string]: ZodTypeAny }
+	/** The headers sent with the responses, per status (lowercase names, e.g. `{ 201: Is.object({ location: ... }) }`) */
+	responseHeaders?: { [key in number | string]: ZodTypeAny }
+	/** The cookies set by the responses (requires the `cookie` plugin) */
+	cookies?: AnyZodObject
 }
 
 export interface SchemaType<S extends Schema> {
@@ -52,16 +318,34 @@ export interface SchemaType<S extends Schema> {
 
 	response: { [K in keyof S['response']]: output<S['response'][K]> }
 	result: output<S['response'][keyof S['response']]>
+
+	headers: { [K in keyof S['responseHeaders']]: input<NonNullable<S['responseHeaders']>[K]> }
+	cookies: NonNullable<S['cookies']> extends AnyZodObject ? input<NonNullable<S['cookies']>> : Record<string, string>
 }
 
+export type RequestInput<T extends SchemaType<Schema>> = ({} extends T['paramsIn']
+	? { params?: T['paramsIn'] }
+	: { params: T['paramsIn'] }) &
+	({} extends T['queryIn'] ? { query?: T['queryIn'] } : { query: T['queryIn'] }) &
+	({} extends T['bodyIn'] ? { body?: T['bodyIn'] } : { body: T['bodyIn'] }) & {
+		headers?: Record<string, string>
+	}
+
 export type ModelType<T extends ZodTypeAny> = output<T>
 
 export type CustomType<T> = ZodType<T>
 
-export interface ServerRequest<T extends SchemaType<Schema> = any> extends FastifyRequest {
+/**
+ * The context shared by all the requests, can be augmented (declaration merging) to type what the global
+ * middlewares (`server.use`) add to `req.ctx`.
+ */
+export interface RequestContext {}
+
+export interface ServerRequest<T extends SchemaType<Schema> = any, C = {}> extends FastifyRequest {
 	body: T['body']
 	query: T['query']
 	params: T['params']
+	ctx: RequestContext & C
 }
 
 export interface ServerReply<T extends SchemaType<Schema> = any> {
@@ -75,15 +359,115 @@ export interface ServerReply<T extends SchemaType<Schema> = any> {
 	) => FastifyReply
 	custom: () => FastifyReply
 	html: (input: string | JSX.Element) => FastifyReply
+	/** Sends a `204 No Content` response */
+	noContent: () => FastifyReply
+	/** Redirects to another URL */
+	redirect: <R extends keyof T['response'] & RedirectStatus>(status: R, url: string) => FastifyReply
+	/** Sets headers of the response, validated against the `responseHeaders` schema of the sent status */
+	headers: (headers: ResponseHeaders<T>) => ServerReply<T>
+	/** Sets a cookie, validated against the `cookies` schema (requires the `cookie` plugin) */
+	cookie: <K extends keyof T['cookies'] & string>(
+		name: K,
+		value: T['cookies'][K],
+		options?: CookieSerializeOptions
+	) => ServerReply<T>
+	/** Clears a cookie (requires the `cookie` plugin) */
+	clearCookie: (name: keyof T['cookies'] & string, options?: CookieSerializeOptions) => ServerReply<T>
+	/**
+	 * Sends a file (a path, a Buffer or a stream), with support for `Range` requests (`206`) and conditional requests
+	 * (`304`) when its size, entity tag or modification date are known
+	 */
+	file: <R extends BinaryStatus<T>>(
+		status: R,
+		source: string | Buffer | Readable,
+		options?: FileOptions
+	) => Promise<FastifyReply>
+	sse: <R extends keyof T['response']>(
+		status: R,
+		source: AsyncIterable<T['response'][R]> | ((ctx: SSEContext) => AsyncIterable<T['response'][R]>),
+		options?: SSEOptions
+	) => FastifyReply
 }
 
-export type Middleware<T extends SchemaType<Schema> = any> = (
+/** The statuses of a route schema replying with an error (`Is.error(...)`) */
+export type ErrorStatus<T extends SchemaType<Schema>> = {
+	[R in keyof T['response']]: T['response'][R] extends { success: false } ? R : never
+}[keyof T['response']] &
+	number
+
+/** Encodes the data of a response (validated against its schema) in another format than JSON */
+export type Serializer = (data: any, context: { status: number; resource?: string }) => string | Buffer
+
+export type RedirectStatus = 300 | 301 | 302 | 303 | 307 | 308
+
+/** The headers declared by the `responseHeaders` schema of a route (any header if there is none) */
+export type ResponseHeaders<T extends SchemaType<Schema>> = {} extends T['headers']
+	? Record<string, string | number | string[]>
+	: Partial<UnionToIntersection<T['headers'][keyof T['headers']]>>
+
+export interface SSEContext {
+	/** The `Last-Event-ID` header sent by the client when it reconnects */
+	lastEventId?: string
+	/** Aborted when the client disconnects */
+	signal: AbortSignal
+}
+
+export interface SSEOptions {
+	/** The interval between two heartbeat comments in milliseconds, default to `15000` (`0` to disable) */
+	heartbeat?: number
+}
+
+declare const binary: unique symbol
+
+/** The body of a binary response (`Is.binary()`), sent with `reply.file()` */
+export interface Binary {
+	readonly [binary]: true
+}
+
+/** The statuses of a route schema replying with a binary body (`Is.binary()`) */
+export type BinaryStatus<T extends SchemaType<Schema>> = {
+	[R in keyof T['response']]: T['response'][R] extends Binary ? R : never
+}[keyof T['response']]
+
+export interface FileOptions {
+	/** The name of the file, sent as an attachment (`Content-Disposition`), default to the name of the path */
+	filename?: string
+	/** Whether the file is displayed in the browser (`inline`) instead of downloaded, default to `false` */
+	inline?: boolean
+	/** The content type, default to the one of the filename extension (or the media type of `Is.binary()`) */
+	type?: string
+	/** The size of a stream, the other sources are measured */
+	size?: number
+	/** The entity tag, computed for the paths (size & modification date) and the buffers (content hash) */
+	etag?: string | false
+	/** The modification date, default to the one of the path */
+	lastModified?: Date | false
+}
+
+/**
+ * A middleware, the object it resolves to (if any) is merged into `req.ctx` (typed by `C`).
+ */
+export type Middleware<T extends SchemaType<Schema> = any, C extends object = {}> = (
 	req: ServerRequest<T>,
 	reply: ServerReply<T>
-) => Promise<any>
+) => Promise<C | FastifyReply | void>
 
-export type Controller<T extends SchemaType<Schema> = any> = (
-	req: ServerRequest<T>,
+type UnionToIntersection<U> = (U extends any ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never
+
+/**
+ * The context contributed by a list of middlewares.
+ */
+export type ContextOf<M extends readonly Middleware<any, any>[]> = [ContextPart<M[number]>] extends [never]
+	? {}
+	: UnionToIntersection<ContextPart<M[number]>>
+
+// `Awaited` can't be used as FastifyReply is thenable
+type ContextPart<F> = F extends (...args: any[]) => Promise<infer R>
+	? Exclude<R, FastifyReply | void | undefined>
+	: never
+
+export type Controller<T extends SchemaType<Schema> = any, M extends readonly Middleware<any, any>[] = []> = (
+	req: ServerRequest<T, ContextOf<M>>,
 	reply: ServerReply<T>
 ) => Promise<FastifyReply>
 
@@ -93,12 +477,138 @@ export type Route<
 		querystring: ZodTypeAny
 		params: ZodTypeAny
 		response: { [key in number | string]: ZodTypeAny }
-	}>
+	}>,
+	M extends readonly Middleware<T, any>[] = Middleware<T>[],
 > = {
 	method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
 	path: `/${string}`
-	middlewares?: Middleware<T>[]
+	middlewares?: M
 	schema?: Schema
-	controller: Controller<T>
+	controller: Controller<T, M>
 	config?: FastifyContextConfig
 }
+
+export interface SocketSchema {
+	querystring?: ZodTypeAny
+	params?: ZodTypeAny
+	message: ZodTypeAny
+	send: ZodTypeAny
+}
+
+export type SocketSchemaType<S extends SocketSchema> = SchemaType<{
+	querystring: S['querystring']
+	params: S['params']
+	response: {}
+}> & {
+	message: output<S['message']>
+	send: input<S['send']>
+}
+
+export interface ServerSocket<T extends SocketSchemaType<SocketSchema> = any> {
+	/** Validates (asynchronously, the refinements included) and sends a message, the invalid ones are logged & dropped */
+	send: (message: T['send']) => Promise<void>
+	on: {
+		(event: 'message', listener: (message: T['message']) => Promise<void> | void): ServerSocket<T>
+		(event: 'close', listener: (code: number, reason: Buffer) => void): ServerSocket<T>
+	}
+	close: (code?: number, reason?: string) => void
+	raw: WebSocket
+}
+
+export type SocketHandler<
+	T extends SocketSchemaType<SocketSchema> = any,
+	M extends readonly Middleware<any, any>[] = [],
+> = (socket: ServerSocket<T>, req: ServerRequest<T, ContextOf<M>>) => Promise<void> | void
+
+export type SocketRoute<
+	T extends SocketSchemaType<SocketSchema> = SocketSchemaType<{
+		querystring: ZodTypeAny
+		params: ZodTypeAny
+		message: ZodTypeAny
+		send: ZodTypeAny
+	}>,
+	M extends readonly Middleware<T, any>[] = Middleware<T>[],
+> = {
+	method: 'WS'
+	path: `/${string}`
+	middlewares?: M
+	schema: SocketSchema
+	handler: SocketHandler<T, M>
+	config?: FastifyContextConfig
+}
+
+export interface RegisteredRoute {
+	resource: string
+	/** The type of the resources of the route (JSON:API), the `TYPE` of its router or the last segment of its resource */
+	type: string
+	name: string
+	method: Route['method'] | SocketRoute['method']
+	url: string
+	route: Route | SocketRoute
+}
+
+export interface ClientOptions {
+	baseUrl: string
+	/** The envelope of the server responses, default to `default` */
+	envelope?: EnvelopeName | Envelope
+	/** The date policy of the server, the responses are parsed and the request bodies serialized accordingly */
+	dates?: DatesOptions
+	headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>)
+	fetch?: typeof fetch
+}
+
+export type ClientCall<T extends SchemaType<Schema>> = (
+	...args: {} extends RequestInput<T> ? [input?: RequestInput<T>] : [input: RequestInput<T>]
+) => Promise<T['result']>
+
+export type Client<R extends Record<string, object>> = {
+	[N in keyof R]: {
+		[K in keyof R[N] as R[N][K] extends Route<any, any> ? K : never]: R[N][K] extends Route<infer T, any>
+			? ClientCall<T>
+			: never
+	}
+}
+
+export type Issue = ReturnType<typeof exportIssues>[number]
+
+export interface InjectResponse<T extends SchemaType<Schema>> {
+	status: number
+	headers: Record<string, string | string[] | undefined>
+	body: T['result']
+}
+
+type UploadField = string | number | boolean | Date
+
+type UploadFile = {
+	filename: string
+	content: Buffer | string
+	mimetype?: string
+}
+
+export type UploadInput<T extends SchemaType<Schema>> = Omit<RequestInput<T>, 'body'> & {
+	fields?: { [K in keyof T['bodyIn']]?: UploadField | UploadField[] }
+	files?: { [K in keyof T['bodyIn']]?: UploadFile | UploadFile[] }
+}
+
+export interface TestServer {
+	server: Server
+	inject: <T extends SchemaType<Schema>, M extends readonly Middleware<T, any>[]>(
+		route: Route<T, M>,
+		...args: Parameters<ClientCall<T>>
+	) => Promise<InjectResponse<T>>
+	upload: <T extends SchemaType<Schema>, M extends readonly Middleware<T, any>[]>(
+		route: Route<T, M>,
+		input: UploadInput<T>
+	) => Promise<InjectResponse<T>>
+	expectIssues: (response: InjectResponse<any>, expected: Partial<Issue>[]) => Issue[]
+	close: () => Promise<void>
+}
+
+export interface RouteInfo {
+	method: Route['method'] | SocketRoute['method']
+	url: string
+	resource: string
+	name: string
+	middlewares: string[]
+	statuses: string[]
+}
@@ -1,17 +1,7 @@
-import { Multipart, MultipartValue, SavedMultipartFile } from '@fastify/multipart'
-import { ZodIssue } from 'zod'
+import { Multipart, MultipartFile, MultipartValue } from '@fastify/multipart'
+import { ZodFirstPartyTypeKind, ZodIssue, ZodObject, ZodTypeAny } from 'zod'
 
-export const DATE_REGEX = /^(\d{4})-0?(\d+)-0?(\d+)[T ]0?(\d+):0?(\d+)(:0?(\d+))?(\.(\d{3})Z?)?$/
-
-/**
- * Checks if a value is a string in ISO date format (YYYY-MM-DDTHH:mm:ss.sssZ).
- *
- * @param value - The value to check.
- * @returns Whether the value is a string in ISO date format or not.
- */
-export const isDateString = (value: any): boolean => {
-	return value && typeof value === 'string' && DATE_REGEX.test(value)
-}
+import type { UploadedFile } from './types.js'
 
 /**
  * Checks if a string value is a number.
@@ -27,62 +17,54 @@ export const isNumber = (value: string): boolean => {
 }
 
 /**
- * Parses dates in an object recursively and returns a new object with the same structure.
+ * Returns the pathname of the input URL.
  *
- * @param obj - The object to parse dates in.
- * @returns A new object with the same structure as the input object but with all date strings converted to Date objects.
+ * @param input - The input URL.
+ * @returns The pathname of the input URL.
  */
-export const parseDatesInObject = (obj: any): any => {
-	if (obj === null || obj === undefined || typeof obj !== 'object') return obj
-
-	const newBody: Record<string, any> = !Array.isArray(obj) ? {} : []
-
-	for (const key of Object.keys(obj)) {
-		const value = obj[key]
-
-		if (isDateString(value)) newBody[key] = new Date(value)
-		else if (typeof value === 'object') newBody[key] = parseDatesInObject(value)
-		else newBody[key] = value
-	}
-
-	return newBody
+export const pathOf = (input?: string) => {
+	if (!input) return
+	try {
+		const url = new URL(input.startsWith('/') ? `http://127.0.0.1${input}` : input)
+		return url.pathname
+	} catch (_) {}
 }
 
 /**
- * Parses a string value and returns the corresponding JavaScript data type.
+ * Returns the full URL of a route from its router prefix and its path, without trailing slashes (the root one aside).
  *
- * @param value - The string value to parse.
- * @returns The parsed value as a string, boolean, number, Date, or null.
+ * @param prefix - The router prefix (e.g. `/hello`).
+ * @param path - The route path (e.g. `/:name`).
+ * @returns The full URL of the route (e.g. `/hello/:name`), `/` for the root path of a router without prefix.
  */
-export const parseStringValue = (value: string): string | boolean | number | Date | null => {
-	if (value === '') {
-		return value
-	} else if (value === 'true' || value === 'false') {
-		return value === 'true'
-	} else if (isNumber(value)) {
-		if (value.includes('.')) return parseFloat(value)
-		else return parseInt(value)
-	} else if (value === 'null') {
-		return null
-	} else if (typeof value === 'string' && isDateString(value)) {
-		return new Date(value)
-	} else {
-		return value
-	}
+export const urlOf = (prefix: string, path: string) => `${prefix}${path.replace(/\/+$/, '')}` || '/'
+
+/**
+ * Checks if the input is a router, i.e. an object (`{ PREFIX, ...routes }`) containing at least one route.
+ *
+ * @param input - The input to be checked.
+ * @returns A boolean value indicating whether the input is a router.
+ */
+export const isRouter = (input: any): boolean => {
+	if (!input || typeof input !== 'object') return false
+
+	return Object.values(input).some(
+		(route: any) =>
+			route && typeof route === 'object' && typeof route.method === 'string' && typeof route.path === 'string'
+	)
 }
 
 /**
- * Returns the pathname of the input URL.
+ * Replaces the path parameters (`:name`, `*`) of a route URL by their values.
  *
- * @param input - The input URL.
- * @returns The pathname of the input URL.
+ * @param url - The route URL.
+ * @param params - The path parameters values.
+ * @returns The interpolated URL.
  */
-export const pathOf = (input?: string) => {
-	if (!input) return
-	try {
-		const url = new URL(input.startsWith('/') ? `http://127.0.0.1${input}` : input)
-		return url.pathname
-	} catch (_) {}
+export const interpolate = (url: string, params: Record<string, any> = {}) => {
+	return url
+		.replace(/:(\w+)(\([^)]*\))?/g, (_, name) => encodeURIComponent(String(params[name])))
+		.replace(/\*$/, () => String(params['*'] ?? ''))
 }
 
 /**
@@ -99,7 +81,33 @@ export const isField = (input: Multipart): input is MultipartValue<string> => in
  * @param input - The input to be checked.
  * @returns A boolean value indicating whether the input is a file.
  */
-export const isFile = (input: Multipart): input is SavedMultipartFile => input.type === 'file'
+export const isFile = (input: Multipart): input is MultipartFile & { upload?: UploadedFile } => input.type === 'file'
+
+/**
+ * Returns the schema wrapped by the optional, nullable, default, effects... schemas.
+ *
+ * @param schema - The schema to unwrap.
+ * @returns The inner schema.
+ */
+export const unwrapSchema = (schema: ZodTypeAny): ZodTypeAny => {
+	const def = schema._def
+
+	if (def.innerType) return unwrapSchema(def.innerType)
+	if (def.typeName === ZodFirstPartyTypeKind.ZodEffects) return unwrapSchema(def.schema)
+	if (def.typeName === ZodFirstPartyTypeKind.ZodBranded) return unwrapSchema(def.type)
+	return schema
+}
+
+/**
+ * Returns the fields of an object schema.
+ *
+ * @param schema - The object schema (possibly wrapped).
+ * @returns The schemas of the fields, empty if the schema isn't an object.
+ */
+export const fieldsOf = (schema: ZodTypeAny | undefined): Record<string, ZodTypeAny> => {
+	const inner = schema && unwrapSchema(schema)
+	return inner instanceof ZodObject ? inner.shape : {}
+}
 
 /**
  * Transforms an array of ZodIssues into a more simplified format.
@@ -119,3 +127,14 @@ export const exportIssues = (issues: ZodIssue[]) => {
 		}
 	})
 }
+
+/**
+ * Returns the schema of a response status, the exact status first then its range (`2xx`) and the default one.
+ *
+ * @param responses - The response schemas of the route.
+ * @param status - The status of the response.
+ * @returns The schema of the response, if any.
+ */
+export const responseSchemaOf = <T>(responses: Record<string, T> | undefined, status: number): T | undefined => {
+	return responses?.[status] ?? responses?.[`${status.toString()[0]}xx`] ?? responses?.default
+}
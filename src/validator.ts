@@ -1,31 +1,124 @@
-import { ZodTypeAny, z } from 'zod'
+import { ZodLiteral, ZodNumber, ZodObject, ZodOptional, ZodString, ZodTypeAny, z } from 'zod'
+
+import type { Binary } from './types.js'
+
+export type SchemaKind = 'file' | 'binary' | 'html' | 'event' | 'success' | 'error' | 'empty' | 'redirect'
+
+/** The schema of the events of `Is.event()`, one object per event name (discriminated by `event`) */
+type EventSchema<M extends Record<string, ZodTypeAny>> = {
+	[K in keyof M & string]: ZodObject<{
+		event: ZodLiteral<K>
+		data: M[K]
+		id: ZodOptional<ZodString>
+		retry: ZodOptional<ZodNumber>
+	}>
+}[keyof M & string]
+
+const schemaKinds = new WeakMap<ZodTypeAny, SchemaKind>()
+
+/**
+ * Tags a schema with a special kind, used to recognize it later (e.g. when generating the OpenAPI document).
+ *
+ * @param kind - The kind of the schema.
+ * @param schema - The schema to tag.
+ * @returns The tagged schema.
+ */
+const tag = <Z extends ZodTypeAny>(kind: SchemaKind, schema: Z): Z => {
+	schemaKinds.set(schema, kind)
+	return schema
+}
+
+/**
+ * Returns the special kind of a schema created with one of the `Is` helpers, if any.
+ *
+ * @param schema - The schema to check.
+ * @returns The kind of the schema or `undefined`.
+ */
+export const kindOf = (schema: ZodTypeAny): SchemaKind | undefined => schemaKinds.get(schema)
+
+const mediaTypes = new WeakMap<ZodTypeAny, string>()
+
+/**
+ * Returns the media type declared by a binary schema (`Is.binary(mediaType)`), if any.
+ *
+ * @param schema - The schema to check.
+ * @returns The media type or `undefined`.
+ */
+export const mediaTypeOf = (schema: ZodTypeAny): string | undefined => mediaTypes.get(schema)
 
 export const Is = {
 	...z,
 
 	success: <Z extends ZodTypeAny>(data: Z = z.undefined() as Z) =>
-		z.object({
-			success: z.literal(true),
-			data: data,
-		}),
+		tag(
+			'success',
+			z.object({
+				success: z.literal(true),
+				data: data,
+			})
+		),
 
 	error: <Z extends string>(...types: readonly [Z, ...Z[]]) =>
-		z.object({
-			success: z.literal(false),
-			error: z.object({
-				type: z.enum(types),
-				message: z.string(),
-				details: z.array(z.any()).optional(),
-			}),
-		}),
+		tag(
+			'error',
+			z.object({
+				success: z.literal(false),
+				error: z.object({
+					type: z.enum(types),
+					message: z.string(),
+					details: z.array(z.any()).optional(),
+				}),
+			})
+		),
 
+	// A file uploaded to the disk (`Storage.temp()`, the default, or `Storage.directory()`)
 	file: (mimetype?: RegExp) =>
-		z.object({
-			path: z.string(),
-			filename: z.string(),
-			size: z.number(),
-			mimetype: mimetype ? z.string().regex(mimetype) : z.string(),
-		}),
-
-	html: () => z.string(),
+		tag(
+			'file',
+			z.object({
+				path: z.string(),
+				filename: z.string(),
+				size: z.number(),
+				mimetype: mimetype ? z.string().regex(mimetype) : z.string(),
+			})
+		),
+
+	// A file uploaded to the memory (`Storage.memory()`) or to a custom storage, located by what the storage returns
+	storedFile: (mimetype?: RegExp) =>
+		tag(
+			'file',
+			z.object({
+				path: z.string().optional(),
+				buffer: z.custom<Buffer>((value) => Buffer.isBuffer(value)).optional(),
+				key: z.string().optional(),
+				filename: z.string(),
+				size: z.number(),
+				mimetype: mimetype ? z.string().regex(mimetype) : z.string(),
+			})
+		),
+
+	binary: (mediaType = 'application/octet-stream') => {
+		const schema = tag('binary', z.custom<Binary>())
+		mediaTypes.set(schema, mediaType)
+		return schema
+	},
+
+	html: () => tag('html', z.string()),
+
+	empty: () => tag('empty', z.undefined()),
+
+	redirect: () => tag('redirect', z.undefined()),
+
+	event: <M extends Record<string, ZodTypeAny>>(events: M) => {
+		const options = Object.entries(events).map(([event, data]) =>
+			z.object({
+				event: z.literal(event),
+				data: data,
+				id: z.string().optional(),
+				retry: z.number().int().optional(),
+			})
+		) as EventSchema<M>[]
+
+		return tag('event', z.discriminatedUnion('event', options as [EventSchema<M>, ...EventSchema<M>[]]))
+	},
 }